@@ -0,0 +1,167 @@
+/** Size of each kind of address, in bytes. */
+export const ADDRESS_SIZE = {
+  ipv4: 4,
+  ipv6: 16,
+  mac: 6,
+} as const;
+
+export type AddressKind = keyof typeof ADDRESS_SIZE;
+
+const IPV4_PART = /^(?:0|[1-9]\d{0,2})$/;
+const IPV6_GROUP = /^[0-9a-f]{1,4}$/i;
+const MAC = /^[0-9a-f]{2}(?<sep>[:-])[0-9a-f]{2}(?:\k<sep>[0-9a-f]{2}){4}$/i;
+
+/**
+ * Format an IPv4 address as a dotted quad.
+ *
+ * @param bytes Four bytes.
+ * @returns Address, such as "192.0.2.1".
+ */
+export function ipv4ToString(bytes: Uint8Array): string {
+  return Array.from(bytes, b => b.toString()).join('.');
+}
+
+/**
+ * Format an IPv6 address as recommended by RFC 5952: lowercase, no leading
+ * zeros, and the first longest run of two or more zero groups replaced by
+ * "::".  IPv4-mapped addresses end with a dotted quad.
+ *
+ * @param bytes Sixteen bytes.
+ * @returns Address, such as "2001:db8::1".
+ */
+export function ipv6ToString(bytes: Uint8Array): string {
+  const groups: number[] = [];
+  for (let i = 0; i < 16; i += 2) {
+    groups.push((bytes[i] << 8) | bytes[i + 1]);
+  }
+  if (groups.slice(0, 5).every(g => g === 0) && (groups[5] === 0xffff)) {
+    return `::ffff:${ipv4ToString(bytes.subarray(12))}`;
+  }
+
+  let bestStart = -1;
+  let bestLen = 1; // Single zero groups are not compressed.
+  for (let i = 0; i < 8; i++) {
+    let j = i;
+    while ((j < 8) && (groups[j] === 0)) {
+      j++;
+    }
+    if ((j - i) > bestLen) {
+      bestStart = i;
+      bestLen = j - i;
+    }
+    i = j;
+  }
+
+  const hex = groups.map(g => g.toString(16));
+  if (bestStart < 0) {
+    return hex.join(':');
+  }
+  const head = hex.slice(0, bestStart).join(':');
+  const tail = hex.slice(bestStart + bestLen).join(':');
+  return `${head}::${tail}`;
+}
+
+/**
+ * Format a MAC address as lowercase colon-separated hex.
+ *
+ * @param bytes Six bytes.
+ * @returns Address, such as "00:00:5e:00:53:01".
+ */
+export function macToString(bytes: Uint8Array): string {
+  return Array.from(bytes, b => b.toString(16).padStart(2, '0')).join(':');
+}
+
+/**
+ * Parse a dotted-quad IPv4 address.  Leading zeros are not allowed, since
+ * some parsers treat them as octal.
+ *
+ * @param addr Address, such as "192.0.2.1".
+ * @returns Four bytes.
+ * @throws {RangeError} Malformed address.
+ */
+export function parseIPv4(addr: string): Uint8Array {
+  const parts = addr.split('.');
+  if ((parts.length !== 4) ||
+    !parts.every(p => IPV4_PART.test(p) && (Number(p) < 256))) {
+    throw new RangeError(`Invalid IPv4 address: "${addr}"`);
+  }
+  return new Uint8Array(parts.map(Number));
+}
+
+/**
+ * Parse the groups on one side of the "::" in an IPv6 address.
+ *
+ * @param part Colon-separated groups.
+ * @param last If true, the groups may end in a dotted quad.
+ * @returns 16-bit groups, or null if malformed.
+ */
+function ipv6Groups(part: string, last: boolean): number[] | null {
+  if (!part) {
+    return [];
+  }
+  const res: number[] = [];
+  const strs = part.split(':');
+  let v4: Uint8Array | undefined = undefined;
+  if (last && strs[strs.length - 1].includes('.')) {
+    try {
+      v4 = parseIPv4(strs.pop() as string);
+    } catch {
+      return null;
+    }
+  }
+  for (const s of strs) {
+    if (!IPV6_GROUP.test(s)) {
+      return null;
+    }
+    res.push(parseInt(s, 16));
+  }
+  if (v4) {
+    res.push((v4[0] << 8) | v4[1], (v4[2] << 8) | v4[3]);
+  }
+  return res;
+}
+
+/**
+ * Parse a textual IPv6 address (RFC 4291, section 2.2), including
+ * compressed zeros and a trailing dotted quad.  Zone identifiers are not
+ * allowed.
+ *
+ * @param addr Address, such as "2001:db8::1".
+ * @returns Sixteen bytes.
+ * @throws {RangeError} Malformed address.
+ */
+export function parseIPv6(addr: string): Uint8Array {
+  const halves = addr.split('::');
+  let groups: number[] | null = null;
+  if (halves.length === 1) {
+    groups = ipv6Groups(addr, true);
+  } else if (halves.length === 2) {
+    const head = ipv6Groups(halves[0], false);
+    const tail = ipv6Groups(halves[1], true);
+    if (head && tail && ((head.length + tail.length) < 8)) {
+      const zeros = new Array<number>(8 - head.length - tail.length).fill(0);
+      groups = [...head, ...zeros, ...tail];
+    }
+  }
+  if (groups?.length !== 8) {
+    throw new RangeError(`Invalid IPv6 address: "${addr}"`);
+  }
+  const res = new Uint8Array(16);
+  const dv = new DataView(res.buffer);
+  groups.forEach((g, i) => dv.setUint16(i * 2, g));
+  return res;
+}
+
+/**
+ * Parse a MAC address, with colons or hyphens between the bytes.
+ *
+ * @param addr Address, such as "00:00:5e:00:53:01" or "00-00-5E-00-53-01".
+ * @returns Six bytes.
+ * @throws {RangeError} Malformed address.
+ */
+export function parseMAC(addr: string): Uint8Array {
+  if (!MAC.test(addr)) {
+    throw new RangeError(`Invalid MAC address: "${addr}"`);
+  }
+  return new Uint8Array(addr.split(/[:-]/).map(b => parseInt(b, 16)));
+}
@@ -0,0 +1,180 @@
+import type {DataViewReader} from './reader.ts';
+
+export interface BitReaderOptions {
+  /**
+   * Take bits from the least-significant end of each byte first, and build
+   * values starting from their least-significant bit, as in DEFLATE.  By
+   * default, bits are taken from the most-significant end of each byte, and
+   * values are built starting from their most-significant bit, as in H.264
+   * and MPEG-TS.
+   * @default false
+   */
+  lsbFirst?: boolean;
+}
+
+/**
+ * Read fields of arbitrary bit widths, which may span byte boundaries.
+ * Bytes are pulled from the underlying DataViewReader one at a time, only
+ * when they are needed, so the reader's offset always points to the byte
+ * after the one currently being consumed.  If the reader is used directly
+ * in the meantime, any bits left over from the current byte are discarded.
+ */
+export class BitReader {
+  #r: DataViewReader;
+  #lsb: boolean;
+  #byte = 0;
+  #left = 0;
+  #next = 0;
+
+  /**
+   * Create a bit reader.
+   *
+   * @param reader Reader to pull bytes from.
+   * @param opts Options.
+   */
+  public constructor(reader: DataViewReader, opts: BitReaderOptions = {}) {
+    this.#r = reader;
+    this.#lsb = Boolean(opts.lsbFirst);
+  }
+
+  /**
+   * The underlying reader.
+   *
+   * @returns Reader.
+   */
+  public get reader(): DataViewReader {
+    return this.#r;
+  }
+
+  /**
+   * Are bits being read least-significant first?
+   *
+   * @returns True if LSB-first.
+   */
+  public get lsbFirst(): boolean {
+    return this.#lsb;
+  }
+
+  /**
+   * Number of bits not yet read from the current byte.
+   *
+   * @returns Number from 0-7.
+   */
+  public get bitsLeft(): number {
+    this.#checkMoved();
+    return this.#left;
+  }
+
+  /**
+   * Is the reader on a byte boundary?
+   *
+   * @returns True if no bits are left over from the current byte.
+   */
+  public get aligned(): boolean {
+    return this.bitsLeft === 0;
+  }
+
+  /**
+   * Read a single bit.  Returns NaN if truncation is allowed and the
+   * packet was truncated.
+   *
+   * @returns 0 or 1.
+   */
+  public readBit(): number {
+    return this.readBits(1);
+  }
+
+  /**
+   * Read an unsigned integer of the given number of bits.  Returns NaN if
+   * truncation is allowed and the packet was truncated.
+   *
+   * @param n Number of bits, from 0-53.
+   * @returns Number.
+   * @throws {RangeError} Invalid number of bits.
+   */
+  public readBits(n: number): number {
+    if (!Number.isInteger(n) || (n < 0) || (n > 53)) {
+      throw new RangeError(`Invalid number of bits: ${n}`);
+    }
+    this.#checkMoved();
+    let res = 0;
+    let shift = 0;
+    while (n > 0) {
+      if (this.#left === 0) {
+        const byte = this.#r.u8();
+        if (Number.isNaN(byte)) {
+          return NaN;
+        }
+        this.#byte = byte;
+        this.#left = 8;
+        this.#next = this.#r.offset;
+      }
+      const take = Math.min(n, this.#left);
+      const mask = (1 << take) - 1;
+      if (this.#lsb) {
+        const bits = (this.#byte >> (8 - this.#left)) & mask;
+        res += bits * (2 ** shift);
+        shift += take;
+      } else {
+        const bits = (this.#byte >> (this.#left - take)) & mask;
+        res = (res * (2 ** take)) + bits;
+      }
+      this.#left -= take;
+      n -= take;
+    }
+    return res;
+  }
+
+  /**
+   * Read an unsigned integer of any number of bits, as a bigint.  Returns -1n
+   * if truncation is allowed and the packet was truncated.
+   *
+   * @param n Number of bits.
+   * @returns Bigint.
+   * @throws {RangeError} Invalid number of bits.
+   */
+  public readBigBits(n: number): bigint {
+    if (!Number.isSafeInteger(n) || (n < 0)) {
+      throw new RangeError(`Invalid number of bits: ${n}`);
+    }
+    let res = 0n;
+    let shift = 0n;
+    while (n > 0) {
+      const take = Math.min(n, 32);
+      const bits = this.readBits(take);
+      if (Number.isNaN(bits)) {
+        return -1n;
+      }
+      if (this.#lsb) {
+        res |= BigInt(bits) << shift;
+        shift += BigInt(take);
+      } else {
+        res = (res << BigInt(take)) | BigInt(bits);
+      }
+      n -= take;
+    }
+    return res;
+  }
+
+  /**
+   * Discard any bits left over from the current byte, so that the next read
+   * starts on a byte boundary.
+   *
+   * @returns Number of bits discarded.
+   */
+  public align(): number {
+    const left = this.bitsLeft;
+    this.#left = 0;
+    return left;
+  }
+
+  /**
+   * If the reader has been moved since the current byte was read, such as
+   * by a byte-oriented read, the bits left over from that byte are stale.
+   */
+  #checkMoved(): void {
+    if (this.#left && (this.#r.offset !== this.#next)) {
+      this.#left = 0;
+    }
+  }
+}
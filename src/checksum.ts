@@ -0,0 +1,266 @@
+/** Running state of a checksum computation. */
+export interface Checksum {
+  /**
+   * Add more bytes to the checksum.
+   *
+   * @param bytes Next bytes, which may be any length.
+   */
+  update(bytes: Uint8Array): void;
+
+  /**
+   * Get the checksum of all of the bytes so far.  More bytes may be added
+   * afterward.
+   *
+   * @returns Checksum, as an unsigned integer.
+   */
+  digest(): number;
+}
+
+/**
+ * A checksum algorithm.  Implement this interface to use algorithms that are
+ * not built in.
+ */
+export interface ChecksumAlgorithm {
+  /** Name, for error messages. */
+  readonly name: string;
+
+  /** Size of the checksum in bytes, from 1-6. */
+  readonly size: number;
+
+  /**
+   * Start a new computation.
+   *
+   * @returns Initial state.
+   */
+  create(): Checksum;
+}
+
+/**
+ * Create a table for a byte-at-a-time CRC.
+ *
+ * @param fn Compute the table entry for a byte.
+ * @returns Table.
+ */
+function crcTable(fn: (n: number) => number): Uint32Array {
+  const table = new Uint32Array(256);
+  for (let i = 0; i < 256; i++) {
+    table[i] = fn(i);
+  }
+  return table;
+}
+
+const CRC32_TABLE = crcTable(n => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = (c & 1) ? (0xedb88320 ^ (c >>> 1)) : (c >>> 1);
+  }
+  return c >>> 0;
+});
+
+const CRC16_TABLE = crcTable(n => {
+  let c = n << 8;
+  for (let k = 0; k < 8; k++) {
+    c = (c & 0x8000) ? ((c << 1) ^ 0x1021) : (c << 1);
+  }
+  return c & 0xffff;
+});
+
+/** CRC-32, as in Ethernet, zlib, PNG, and ZIP. */
+export const crc32: ChecksumAlgorithm = {
+  name: 'crc32',
+  size: 4,
+  create() {
+    let c = 0xffffffff;
+    return {
+      update(bytes): void {
+        for (const b of bytes) {
+          c = CRC32_TABLE[(c ^ b) & 0xff] ^ (c >>> 8);
+        }
+      },
+      digest(): number {
+        return (c ^ 0xffffffff) >>> 0;
+      },
+    };
+  },
+};
+
+/** CRC-16/CCITT-FALSE: polynomial 0x1021, initial value 0xffff. */
+export const crc16ccitt: ChecksumAlgorithm = {
+  name: 'crc16ccitt',
+  size: 2,
+  create() {
+    let c = 0xffff;
+    return {
+      update(bytes): void {
+        for (const b of bytes) {
+          c = ((c << 8) & 0xffff) ^ CRC16_TABLE[((c >> 8) ^ b) & 0xff];
+        }
+      },
+      digest(): number {
+        return c;
+      },
+    };
+  },
+};
+
+/** Adler-32 (RFC 1950), as in zlib. */
+export const adler32: ChecksumAlgorithm = {
+  name: 'adler32',
+  size: 4,
+  create() {
+    let a = 1;
+    let b = 0;
+    return {
+      update(bytes): void {
+        for (const x of bytes) {
+          a = (a + x) % 65521;
+          b = (b + a) % 65521;
+        }
+      },
+      digest(): number {
+        return ((b << 16) | a) >>> 0;
+      },
+    };
+  },
+};
+
+/** Fletcher-16, over bytes. */
+export const fletcher16: ChecksumAlgorithm = {
+  name: 'fletcher16',
+  size: 2,
+  create() {
+    let s1 = 0;
+    let s2 = 0;
+    return {
+      update(bytes): void {
+        for (const x of bytes) {
+          s1 = (s1 + x) % 255;
+          s2 = (s2 + s1) % 255;
+        }
+      },
+      digest(): number {
+        return (s2 << 8) | s1;
+      },
+    };
+  },
+};
+
+/**
+ * Fletcher-32, over little-endian 16-bit words.  An odd final byte is padded
+ * with zero.
+ */
+export const fletcher32: ChecksumAlgorithm = {
+  name: 'fletcher32',
+  size: 4,
+  create() {
+    let s1 = 0;
+    let s2 = 0;
+    let pending = -1;
+    const word = (w: number): void => {
+      s1 = (s1 + w) % 65535;
+      s2 = (s2 + s1) % 65535;
+    };
+    return {
+      update(bytes): void {
+        for (const x of bytes) {
+          if (pending < 0) {
+            pending = x;
+          } else {
+            word(pending | (x << 8));
+            pending = -1;
+          }
+        }
+      },
+      digest(): number {
+        let t1 = s1;
+        let t2 = s2;
+        if (pending >= 0) {
+          t1 = (t1 + pending) % 65535;
+          t2 = (t2 + t1) % 65535;
+        }
+        return ((t2 << 16) | t1) >>> 0;
+      },
+    };
+  },
+};
+
+/**
+ * The Internet checksum (RFC 1071), as in IPv4, ICMP, TCP, and UDP: the
+ * one's complement of the one's complement sum of big-endian 16-bit words.
+ * An odd final byte is padded with zero.  Computing it over data that
+ * includes a correct checksum gives 0.
+ */
+export const internet: ChecksumAlgorithm = {
+  name: 'internet',
+  size: 2,
+  create() {
+    let sum = 0;
+    let odd = false;
+    return {
+      update(bytes): void {
+        for (const x of bytes) {
+          sum += odd ? x : (x << 8);
+          odd = !odd;
+          if (sum > 0xffffffff) {
+            sum = (sum & 0xffff) + Math.floor(sum / 0x10000);
+          }
+        }
+      },
+      digest(): number {
+        let s = sum;
+        while (s > 0xffff) {
+          s = (s & 0xffff) + Math.floor(s / 0x10000);
+        }
+        return ~s & 0xffff;
+      },
+    };
+  },
+};
+
+/** Built-in checksum algorithms, by name. */
+export const CHECKSUMS = {
+  adler32,
+  crc16ccitt,
+  crc32,
+  fletcher16,
+  fletcher32,
+  internet,
+} as const;
+
+export type ChecksumName = keyof typeof CHECKSUMS;
+
+/**
+ * Get a checksum algorithm.
+ *
+ * @param algorithm Name of a built-in algorithm, or a custom algorithm.
+ * @returns Algorithm.
+ * @throws {TypeError} Unknown name.
+ */
+export function checksumAlgorithm(
+  algorithm: ChecksumName | ChecksumAlgorithm
+): ChecksumAlgorithm {
+  if (typeof algorithm !== 'string') {
+    return algorithm;
+  }
+  if (!Object.hasOwn(CHECKSUMS, algorithm)) {
+    throw new TypeError(`Unknown checksum algorithm: ${algorithm}`);
+  }
+  return CHECKSUMS[algorithm];
+}
+
+/**
+ * Compute a checksum over some bytes all at once.
+ *
+ * @param algorithm Name of a built-in algorithm, or a custom algorithm.
+ * @param bytes Bytes to check.
+ * @returns Checksum.
+ * @throws {TypeError} Unknown name.
+ */
+export function checksum(
+  algorithm: ChecksumName | ChecksumAlgorithm,
+  bytes: Uint8Array
+): number {
+  const c = checksumAlgorithm(algorithm).create();
+  c.update(bytes);
+  return c.digest();
+}
@@ -1,8 +1,72 @@
+/** Where an error happened, added as the error propagates. */
+export interface ReadErrorContext {
+  /** Path to the field being read, such as "header.options[2].length". */
+  path?: string;
+
+  /** Kind of read, such as "u16" or "struct". */
+  kind?: string;
+
+  /** Hexdump of the input around the offset of the error. */
+  hex?: string;
+}
+
+/**
+ * Base class for errors in the input, rather than in how the input is being
+ * read.  The field path, read kind, and hexdump are filled in as the error
+ * propagates out of struct fields and Packet fields, if known.
+ */
+export class ReadError extends Error {
+  /**
+   * Offset in the input where the problem was found, if known.  Offsets in
+   * sub-readers are from the start of the outermost reader.
+   */
+  public readonly offset: number | undefined;
+
+  /** Path to the field being read, or empty if not in a field. */
+  public path = '';
+
+  /** Kind of read of the innermost field, or empty if not known. */
+  public kind = '';
+
+  /** Hexdump of the input around offset, or empty if not known. */
+  public hex = '';
+
+  #reason: string;
+
+  /**
+   * Create a read error.
+   *
+   * @param message Description of the problem.
+   * @param offset Offset in the input, if known.
+   */
+  public constructor(message: string, offset?: number) {
+    super(message);
+    this.#reason = message;
+    this.offset = offset;
+  }
+
+  /**
+   * Add context to the error.  Fields that have already been set are not
+   * changed, so the innermost context wins.
+   *
+   * @param context Context to add.
+   * @returns This, for chaining.
+   */
+  public addContext(context: ReadErrorContext): this {
+    this.path ||= context.path ?? '';
+    this.kind ||= context.kind ?? '';
+    this.hex ||= context.hex ?? '';
+    const where = [this.path, this.kind].filter(Boolean).join(': ');
+    this.message = where ? `${this.#reason} (reading ${where})` : this.#reason;
+    return this;
+  }
+}
+
 /**
  * The input was truncated, compared to the expected size.
  * In other words, an attempt was made to read past the end of the input.
  */
-export class TruncationError extends Error {
+export class TruncationError extends ReadError {
   public readonly start: number;
   public readonly requested: number;
   public readonly size: number;
@@ -15,7 +79,7 @@ export class TruncationError extends Error {
    * @param size The total size of the input.
    */
   public constructor(start: number, requested: number, size: number) {
-    super(`Message truncated, ${requested} > ${size} at ${start}`);
+    super(`Message truncated, ${requested} > ${size} at ${start}`, start);
     this.start = start;
     this.requested = requested;
     this.size = size;
@@ -25,13 +89,100 @@ export class TruncationError extends Error {
 /**
  * The input was longer than expected.
  */
-export class ExtraBytesError extends Error {
-  public readonly offset: number;
+export class ExtraBytesError extends ReadError {
+  declare public readonly offset: number;
   public readonly size: number;
 
   public constructor(offset: number, size: number) {
-    super(`Message overlong, ${size} > ${offset}`);
-    this.offset = offset;
+    super(`Message overlong, ${size} > ${offset}`, offset);
     this.size = size;
   }
 }
+
+/**
+ * A variable-length integer was invalid, either because it used more bytes
+ * than necessary, or because it encoded a value that does not fit in 64 bits.
+ */
+export class VarintError extends ReadError {
+  public readonly start: number;
+  public readonly length: number;
+
+  /**
+   * Create a varint error.
+   *
+   * @param start The starting offset of the varint.
+   * @param length The number of bytes read so far.
+   * @param reason Why the varint was rejected.
+   */
+  public constructor(start: number, length: number, reason: string) {
+    super(`Invalid varint, ${reason} (${length} bytes at ${start})`, start);
+    this.start = start;
+    this.length = length;
+  }
+}
+
+/**
+ * A checksum did not match the bytes it covers.
+ */
+export class ChecksumError extends ReadError {
+  public readonly algorithm: string;
+  public readonly start: number;
+  public readonly end: number;
+  public readonly expected: number;
+  public readonly actual: number;
+
+  /**
+   * Create a checksum error.
+   *
+   * @param algorithm Name of the checksum algorithm.
+   * @param region The offsets of the bytes that were checked.
+   * @param region.start Offset of the first byte.
+   * @param region.end Offset after the last byte.
+   * @param expected The checksum that was in the input.
+   * @param actual The checksum that was computed.
+   */
+  public constructor(
+    algorithm: string,
+    region: {start: number; end: number},
+    expected: number,
+    actual: number
+  ) {
+    super(`Invalid ${algorithm} checksum, expected 0x${expected.toString(16)} but computed 0x${actual.toString(16)} (bytes ${region.start}..${region.end})`, region.start);
+    this.algorithm = algorithm;
+    this.start = region.start;
+    this.end = region.end;
+    this.expected = expected;
+    this.actual = actual;
+  }
+}
+
+/**
+ * Text was not valid in its encoding, and ignoreUTF8errors was not set.
+ * Despite the name, this is used for UTF-16 and other encodings as well,
+ * like the option.
+ */
+export class UTF8Error extends ReadError {
+  public readonly start: number;
+  public readonly length: number;
+  public readonly encoding: string;
+
+  /**
+   * Create an encoding error.
+   *
+   * @param start The starting offset of the text.
+   * @param length The number of bytes of text.
+   * @param encoding Name of the encoding, such as "utf-8".
+   */
+  public constructor(start: number, length: number, encoding: string) {
+    super(`Invalid ${encoding} text (${length} bytes at ${start})`, start);
+    this.start = start;
+    this.length = length;
+    this.encoding = encoding;
+  }
+}
+
+/**
+ * A value was read successfully, but is not allowed, such as non-zero
+ * padding or an unknown enum value.
+ */
+export class ValidationError extends ReadError {}
@@ -0,0 +1,76 @@
+/**
+ * Layout of a fixed-point number, such as 16.16 (bits 32, fraction 16), the
+ * OpenType F2DOT14 (bits 16, fraction 14, signed), or Q15 (bits 16,
+ * fraction 15, signed).
+ */
+export interface FixedPoint {
+  /** Total width in bits, a multiple of 8 from 8-64. */
+  bits: number;
+
+  /** Number of bits after the binary point, from 0 to bits. */
+  fraction: number;
+
+  /** If true, the number is two's-complement signed. */
+  signed?: boolean;
+}
+
+/**
+ * Check a fixed-point layout.
+ *
+ * @param format Layout.
+ * @returns Number of bytes.
+ * @throws {RangeError} Invalid layout.
+ */
+export function fixedBytes(format: FixedPoint): number {
+  const {bits, fraction} = format;
+  if (!Number.isInteger(bits) || (bits < 8) || (bits > 64) || (bits % 8) ||
+    !Number.isInteger(fraction) || (fraction < 0) || (fraction > bits)) {
+    throw new RangeError(`Invalid fixed-point format: ${bits}.${fraction}`);
+  }
+  return bits / 8;
+}
+
+/**
+ * Convert the raw unsigned integer that was read into a number.
+ *
+ * @param raw Unsigned integer of format.bits bits.
+ * @param format Layout.
+ * @returns Number, which may lose precision for more than 53 bits.
+ */
+export function fromFixed(raw: number | bigint, format: FixedPoint): number {
+  const {bits, fraction, signed} = format;
+  let n = 0;
+  if (typeof raw === 'bigint') {
+    n = Number(signed ? BigInt.asIntN(bits, raw) : raw);
+  } else {
+    n = raw;
+    if (signed && (n >= 2 ** (bits - 1))) {
+      n -= 2 ** bits;
+    }
+  }
+  return n / (2 ** fraction);
+}
+
+/**
+ * Convert a number to the raw unsigned integer to be written.
+ *
+ * @param n Number.
+ * @param format Layout.
+ * @returns Unsigned integer of format.bits bits.
+ * @throws {RangeError} Number out of range, or would lose precision.
+ */
+export function toFixed(n: number, format: FixedPoint): bigint {
+  const {bits, fraction, signed} = format;
+  const scaled = n * (2 ** fraction);
+  const min = signed ? -(2 ** (bits - 1)) : 0;
+  const limit = 2 ** (signed ? bits - 1 : bits);
+  if (!((scaled >= min) && (scaled < limit))) {
+    throw new RangeError(
+      `Number ${n} out of range for fixed-point ${bits}.${fraction}`
+    );
+  }
+  if (!Number.isInteger(scaled)) {
+    throw new RangeError('Casting this number to fixed-point would lose precision');
+  }
+  return BigInt.asUintN(bits, BigInt(scaled));
+}
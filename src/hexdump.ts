@@ -0,0 +1,118 @@
+import type {Style} from './inspect.ts';
+
+export interface HexdumpOptions {
+  /**
+   * Number of bytes on each line.
+   * @default 16
+   */
+  width?: number;
+
+  /**
+   * Number of bytes in each group of hex digits, or 0 for no spaces between
+   * bytes.
+   * @default 2
+   */
+  group?: number;
+
+  /**
+   * Offset to show for the first byte, such as when dumping a subarray.
+   * @default 0
+   */
+  offset?: number;
+
+  /**
+   * Show at most this many bytes, followed by a count of the rest.
+   * @default Infinity
+   */
+  maxBytes?: number;
+
+  /**
+   * Index of the current position in bytes.  If stylize is given, this byte
+   * is highlighted, and the bytes after it are shown as unread.
+   */
+  mark?: number;
+
+  /**
+   * Add color to some text, such as InspectOptions.stylize.  If not given,
+   * there is no color.
+   */
+  stylize?(text: string, styleType: Style): string;
+}
+
+/**
+ * Check that an option is a safe integer of at least min.
+ *
+ * @param name Option name, for the error message.
+ * @param n Option value.
+ * @param min Smallest valid value.
+ * @throws {RangeError} Invalid value.
+ */
+function checkInt(name: string, n: number, min: number): void {
+  if (!Number.isSafeInteger(n) || (n < min)) {
+    throw new RangeError(`Invalid hexdump ${name}: ${n}`);
+  }
+}
+
+/**
+ * Format bytes as lines in the style of xxd, each with the offset of the
+ * first byte in hex, the bytes in hex, and the printable ASCII characters,
+ * with "." for everything else.  For example,
+ * "00000000: 6162 6364 0a                             abcd.".
+ *
+ * @param bytes Bytes to dump.
+ * @param opts Options.
+ * @returns Lines, separated by "\n", with no final newline.  Empty if there
+ *   are no bytes.
+ * @throws {RangeError} Invalid width, group, or offset.
+ */
+export function hexdump(bytes: Uint8Array, opts: HexdumpOptions = {}): string {
+  const {
+    width = 16,
+    group = 2,
+    offset = 0,
+    maxBytes = Infinity,
+    mark = Infinity,
+    stylize,
+  } = opts;
+  checkInt('width', width, 1);
+  checkInt('group', group, 0);
+  checkInt('offset', offset, 0);
+
+  const style = (text: string, i: number): string => {
+    if (!stylize || (i < mark)) {
+      return text;
+    }
+    return stylize(text, (i === mark) ? 'special' : 'string');
+  };
+  const groupSpace = (i: number): string => (
+    ((group > 0) && (i > 0) && ((i % group) === 0)) ? ' ' : ''
+  );
+  let hexWidth = width * 2;
+  if (group > 0) {
+    hexWidth += Math.ceil(width / group) - 1;
+  }
+
+  const len = Math.min(bytes.length, Math.max(maxBytes, 0));
+  const lines: string[] = [];
+  for (let start = 0; start < len; start += width) {
+    const end = Math.min(start + width, len);
+    let hex = '';
+    let ascii = '';
+    let used = 0;
+    for (let i = start; i < end; i++) {
+      const b = bytes[i];
+      const space = groupSpace(i - start);
+      hex += space + style(b.toString(16).padStart(2, '0'), i);
+      ascii += style(
+        ((b >= 0x20) && (b < 0x7f)) ? String.fromCharCode(b) : '.', i
+      );
+      used += space.length + 2;
+    }
+    const addr = (offset + start).toString(16).padStart(8, '0');
+    lines.push(`${addr}: ${hex}${' '.repeat(hexWidth - used)}  ${ascii}`);
+  }
+  if (len < bytes.length) {
+    lines.push(`... ${bytes.length - len} more bytes`);
+  }
+  return lines.join('\n');
+}
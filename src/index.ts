@@ -1,20 +1,44 @@
 export type {Inspect, InspectOptions, Style} from './inspect.ts';
+export {type HexdumpOptions, hexdump} from './hexdump.ts';
+export {BitReader, type BitReaderOptions} from './bitReader.ts';
 export {
+  type AddressReader,
+  type AlignReader,
   type BytesReader as ArrayReader,
   type BigIntReader,
+  type BitField,
+  type BitsReader,
+  type CStringOptions,
+  type Checkpoint,
+  type ChecksumRegion,
+  type CompoundReaderType,
+  type Conditional,
   type ConstantReader,
   DataViewReader,
+  type EncodedStringReader,
+  type EnumRead,
+  type EnumReader,
   type FieldType,
+  type FixedReader,
+  type FlagsRead,
+  type FlagsReader,
+  type LengthPrefix,
   type NumberReader,
+  type PadReader,
   type Reader,
   type ReaderOptions,
   type ReaderType,
+  type RepeatedReader,
   type RequiredRederOptions,
   SIZE,
   type StringReader,
   type Struct,
   type StructDefinition,
+  type StructReader,
+  type SwitchReader,
+  type SwitchType,
   type Temp,
+  type ValueReader,
 } from './reader.ts';
 export {
   DataViewReadableStream,
@@ -42,6 +66,49 @@ export {
   DataViewWritableStream,
 } from './writableStream.ts';
 export {
+  ChecksumError,
   ExtraBytesError,
+  ReadError,
+  type ReadErrorContext,
   TruncationError,
+  UTF8Error,
+  ValidationError,
+  VarintError,
 } from './errors.ts';
+export {
+  type EnumMap,
+  type EnumMapOptions,
+  type EnumResult,
+  type EnumValues,
+  type FlagMap,
+  type FlagValues,
+  type UnknownPolicy,
+  enumMap,
+  flagMap,
+} from './mapping.ts';
+export {
+  HOST_LITTLE_ENDIAN,
+  type TypedArrayKind,
+  type TypedArrays,
+} from './typedArray.ts';
+export type {FixedPoint} from './fixed.ts';
+export {
+  TIMESTAMP_SIZE,
+  type TimestampFormat,
+} from './timestamp.ts';
+export {
+  ADDRESS_SIZE,
+  type AddressKind,
+} from './address.ts';
+export {
+  UUID_SIZE,
+  type UuidLayout,
+} from './uuid.ts';
+export {
+  CHECKSUMS,
+  type Checksum,
+  type ChecksumAlgorithm,
+  type ChecksumName,
+  checksum,
+} from './checksum.ts';
+export type {TraceEntry} from './trace.ts';
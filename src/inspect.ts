@@ -24,14 +24,4 @@ export interface InspectOptions {
 
 export type Inspect = (obj: unknown, options: InspectOptions) => string;
 
-/**
- * Convert this Uint8Array to a hex string.
- *
- * @param u8 Array.
- * @returns String.
- */
-export function u8toHex(u8: Uint8Array): string {
-  return u8.reduce((t, v) => t + v.toString(16).padStart(2, '0'), '0x');
-}
-
 export const CUSTOM_INSPECT = Symbol.for('nodejs.util.inspect.custom');
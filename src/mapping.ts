@@ -0,0 +1,133 @@
+import {ValidationError} from './errors.ts';
+
+/** From integer values to names. */
+export interface EnumValues {
+  readonly [value: number]: string;
+}
+
+/** From names to bit positions, with 0 being the least significant bit. */
+export interface FlagValues {
+  readonly [flag: string]: number;
+}
+
+/**
+ * What to do when a value is not in an enum map.  "keep" returns the
+ * original number, "throw" throws a ValidationError, and "fallback" returns
+ * the fallback name.
+ */
+export type UnknownPolicy = 'keep' | 'throw' | 'fallback';
+
+export interface EnumMapOptions<P extends UnknownPolicy, F extends string> {
+  /**
+   * What to do with values that are not in the map.
+   * @default 'keep'
+   */
+  unknown?: P;
+
+  /** Name to return for unknown values, for the "fallback" policy. */
+  fallback?: F;
+}
+
+/** Result type of an enum lookup. */
+export type EnumResult<V extends EnumValues, P, F> = V[keyof V] |
+  (P extends 'throw' ? never : P extends 'fallback' ? F : number);
+
+/**
+ * Maps integer values to names.
+ *
+ * @template N Result type of a lookup.
+ */
+export interface EnumMap<N> {
+  readonly kind: 'enum';
+
+  /**
+   * Look up a value.
+   *
+   * @param n Value that was read.
+   * @returns Name, or according to the unknown policy if not found.
+   * @throws {ValidationError} Unknown value with the "throw" policy.
+   */
+  lookup(n: number): N;
+}
+
+/**
+ * Maps bit positions to flag names.
+ *
+ * @template N Flag names.
+ */
+export interface FlagMap<N extends string> {
+  readonly kind: 'flags';
+
+  /**
+   * Get the names of all of the flags that are set.
+   *
+   * @param n Value that was read.
+   * @returns Set of names.
+   */
+  lookup(n: number | bigint): Set<N>;
+}
+
+/**
+ * Create a map from integer values to names, for use with the "enum" struct
+ * reader or Packet.enum.
+ *
+ * @param values From integer values to names.
+ * @param opts Options.
+ * @returns Enum map.
+ * @throws {Error} Fallback policy without a fallback name.
+ */
+export function enumMap<
+  const V extends EnumValues,
+  const P extends UnknownPolicy = 'keep',
+  const F extends string = never
+>(
+  values: V,
+  opts: EnumMapOptions<P, F> = {}
+): EnumMap<EnumResult<V, P, F>> {
+  const {unknown = 'keep', fallback} = opts;
+  if ((unknown === 'fallback') && (fallback === undefined)) {
+    throw new Error('Fallback policy requires a fallback name');
+  }
+  return {
+    kind: 'enum',
+    lookup(n: number): EnumResult<V, P, F> {
+      if (Object.hasOwn(values, n)) {
+        return values[n as keyof V];
+      }
+      switch (unknown) {
+        case 'throw':
+          throw new ValidationError(`Unknown enum value: ${n}`);
+        case 'fallback':
+          return fallback as EnumResult<V, P, F>;
+        default:
+          return n as EnumResult<V, P, F>;
+      }
+    },
+  };
+}
+
+/**
+ * Create a map from bit positions to flag names, for use with the "flags"
+ * struct reader or Packet.flags.  Bits that are not in the map are ignored.
+ *
+ * @param flags From names to bit positions.
+ * @returns Flag map.
+ */
+export function flagMap<const V extends FlagValues>(
+  flags: V
+): FlagMap<keyof V & string> {
+  const entries = Object.entries(flags);
+  return {
+    kind: 'flags',
+    lookup(n: number | bigint): Set<keyof V & string> {
+      const res = new Set<keyof V & string>();
+      const big = BigInt(n);
+      for (const [flag, bit] of entries) {
+        if ((big >> BigInt(bit)) & 1n) {
+          res.add(flag);
+        }
+      }
+      return res;
+    },
+  };
+}
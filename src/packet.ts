@@ -1,12 +1,38 @@
-import {DataViewReader, type FieldType} from './reader.ts';
+import {BitReader, type BitReaderOptions} from './bitReader.ts';
+import {
+  type ChecksumAlgorithm,
+  type ChecksumName,
+  checksumAlgorithm,
+} from './checksum.ts';
+import {
+  type ChecksumRegion,
+  DataViewReader,
+  type EnumRead,
+  type FieldType,
+  type FlagsRead,
+  type LengthPrefix,
+} from './reader.ts';
+import type {EnumMap, FlagMap} from './mapping.ts';
+import type {TimestampFormat} from './timestamp.ts';
 import {assert} from '@cto.af/utils';
 
 export {
+  BitReader,
   DataViewReader,
 };
 
 export type {
+  BitReaderOptions,
+  ChecksumAlgorithm,
+  ChecksumName,
+  ChecksumRegion,
+  EnumMap,
+  EnumRead,
   FieldType,
+  FlagMap,
+  FlagsRead,
+  LengthPrefix,
+  TimestampFormat,
 };
 
 export interface NumStartFinish {
@@ -88,6 +114,8 @@ export class Packet<T extends object, U = object> {
   #packet: Partial<T> = {};
   #temp: Partial<U> = {};
   #r: DataViewReader;
+  #bits: BitReader | undefined = undefined;
+  #regions: ChecksumRegion[] = [];
 
   public constructor(reader: DataViewReader) {
     this.#r = reader;
@@ -187,6 +215,8 @@ export class Packet<T extends object, U = object> {
     this.#r.reset();
     this.#packet = {};
     this.#temp = {};
+    this.#bits = undefined;
+    this.#regions = [];
     return this;
   }
 
@@ -222,6 +252,87 @@ export class Packet<T extends object, U = object> {
     return this;
   }
 
+  /**
+   * Skip padding bytes until the offset is a multiple of n bytes from
+   * relativeTo.
+   *
+   * @param n Alignment in bytes.
+   * @param relativeTo Offset that alignment is measured from, such as the
+   *   start of the current block.
+   * @param checkZero If true, throw an error if any padding byte is not zero.
+   * @returns This, for chaining.
+   */
+  public align(n: number, relativeTo = 0, checkZero = false): this {
+    this.#r.align(n, relativeTo, checkZero);
+    return this;
+  }
+
+  /**
+   * Read a nested region of length bytes, such as the value of a TLV record.
+   * While fn runs, all reads on this packet come from a sub-reader restricted
+   * to the region, and fields are still stored into the same packet and
+   * temp.  Call complete() inside fn to check that the whole region was
+   * read.  Afterward, reading continues after the region.
+   *
+   * @param length Size of the region in bytes.
+   * @param fn Function that reads from the region.
+   * @returns This, for chaining.
+   */
+  public sub(length: number, fn: (r: DataViewReader) => void): this {
+    const parent = this.#r;
+    const bits = this.#bits;
+    this.#r = parent.sub(length);
+    this.#bits = undefined;
+    try {
+      fn.call(this, this.#r);
+    } finally {
+      this.#r = parent;
+      this.#bits = bits;
+    }
+    return this;
+  }
+
+  /**
+   * Try a speculative parse, such as one of several possible layouts.  If fn
+   * throws or returns false, the reader's offset and truncation state, and
+   * the packet and temp fields, are rolled back to where they were before fn
+   * was called.  Exceptions are re-thrown after rolling back.  May not be
+   * called in bit mode.
+   *
+   * @param fn Function that reads.  Return false to roll back.
+   * @returns True if the reads were kept, false if they were rolled back.
+   * @throws {Error} In bit mode.
+   */
+  public transaction(fn: (r: DataViewReader) => unknown): boolean {
+    if (this.#bits) {
+      throw new Error('Cannot start a transaction in bit mode');
+    }
+    const r = this.#r;
+    const cp = r.checkpoint();
+    const packet = {...this.#packet};
+    const temp = {...this.#temp};
+    const regions = [...this.#regions];
+    const rollback = (): void => {
+      r.restore(cp);
+      this.#packet = packet;
+      this.#temp = temp;
+      this.#regions = regions;
+      this.#bits = undefined;
+    };
+    let ok: unknown = undefined;
+    try {
+      ok = fn.call(this, r);
+    } catch (e) {
+      rollback();
+      throw e;
+    }
+    if (ok === false) {
+      rollback();
+      return false;
+    }
+    return true;
+  }
+
   /**
    * Store all of the data that has yet to be read.
    *
@@ -241,7 +352,7 @@ export class Packet<T extends object, U = object> {
   public unused(
     name: keyof T | keyof U, opts: ReadOpts<Uint8Array, any> = {}
   ): this {
-    return this.#store(name, this.#r.unused(), opts);
+    return this.#read(name, 'unused', () => this.#r.unused(), opts);
   }
 
   /**
@@ -264,7 +375,7 @@ export class Packet<T extends object, U = object> {
   public bytes(
     name: keyof T | keyof U, len: number, opts: ReadOpts<Uint8Array, any> = {}
   ): this {
-    return this.#store(name, this.#r.bytes(len), opts);
+    return this.#read(name, 'bytes', () => this.#r.bytes(len), opts);
   }
 
   /**
@@ -287,7 +398,7 @@ export class Packet<T extends object, U = object> {
   public ascii(
     name: keyof T | keyof U, len: number, opts: ReadOpts<string, any> = {}
   ): this {
-    return this.#store(name, this.#r.ascii(len), opts);
+    return this.#read(name, 'ascii', () => this.#r.ascii(len), opts);
   }
 
   /**
@@ -310,7 +421,90 @@ export class Packet<T extends object, U = object> {
   public utf8(
     name: keyof T | keyof U, len: number, opts: ReadOpts<string, any> = {}
   ): this {
-    return this.#store(name, this.#r.utf8(len), opts);
+    return this.#read(name, 'utf8', () => this.#r.utf8(len), opts);
+  }
+
+  /**
+   * Store some bytes, preceded by their length.
+   *
+   * @param name Field to write to in packet or temp.
+   * @param prefix Type of the length.
+   * @param opts Read options.  The littleEndian option applies to the length.
+   * @returns This, for chaining.
+   */
+  public prefixedBytes<V extends keyof T>(
+    name: V, prefix: LengthPrefix, opts: NotTemp<Uint8Array, T[V]>
+  ): this;
+  public prefixedBytes<V extends keyof T>(
+    name: MatchingType<T, V, Uint8Array>, prefix?: LengthPrefix
+  ): this;
+  public prefixedBytes<V extends keyof U>(
+    name: V, prefix: LengthPrefix, opts: HasTemp<Uint8Array, U[V]>
+  ): this;
+  public prefixedBytes(
+    name: keyof T | keyof U,
+    prefix: LengthPrefix = 'u8',
+    opts: ReadOpts<Uint8Array, any> = {}
+  ): this {
+    return this.#read(name, 'prefixedBytes', () => (
+      this.#r.prefixedBytes(prefix, opts.littleEndian)
+    ), opts);
+  }
+
+  /**
+   * Store some bytes, preceded by their length, interpreted as an ASCII
+   * string.
+   *
+   * @param name Field to write to in packet or temp.
+   * @param prefix Type of the length.
+   * @param opts Read options.  The littleEndian option applies to the length.
+   * @returns This, for chaining.
+   */
+  public prefixedAscii<V extends keyof T>(
+    name: V, prefix: LengthPrefix, opts: NotTemp<string, T[V]>
+  ): this;
+  public prefixedAscii<V extends keyof T>(
+    name: MatchingType<T, V, string>, prefix?: LengthPrefix
+  ): this;
+  public prefixedAscii<V extends keyof U>(
+    name: V, prefix: LengthPrefix, opts: HasTemp<string, U[V]>
+  ): this;
+  public prefixedAscii(
+    name: keyof T | keyof U,
+    prefix: LengthPrefix = 'u8',
+    opts: ReadOpts<string, any> = {}
+  ): this {
+    return this.#read(name, 'prefixedAscii', () => (
+      this.#r.prefixedAscii(prefix, opts.littleEndian)
+    ), opts);
+  }
+
+  /**
+   * Store some bytes, preceded by their length, interpreted as a UTF8
+   * string.
+   *
+   * @param name Field to write to in packet or temp.
+   * @param prefix Type of the length.
+   * @param opts Read options.  The littleEndian option applies to the length.
+   * @returns This, for chaining.
+   */
+  public prefixedUtf8<V extends keyof T>(
+    name: V, prefix: LengthPrefix, opts: NotTemp<string, T[V]>
+  ): this;
+  public prefixedUtf8<V extends keyof T>(
+    name: MatchingType<T, V, string>, prefix?: LengthPrefix
+  ): this;
+  public prefixedUtf8<V extends keyof U>(
+    name: V, prefix: LengthPrefix, opts: HasTemp<string, U[V]>
+  ): this;
+  public prefixedUtf8(
+    name: keyof T | keyof U,
+    prefix: LengthPrefix = 'u8',
+    opts: ReadOpts<string, any> = {}
+  ): this {
+    return this.#read(name, 'prefixedUtf8', () => (
+      this.#r.prefixedUtf8(prefix, opts.littleEndian)
+    ), opts);
   }
 
   /**
@@ -324,7 +518,7 @@ export class Packet<T extends object, U = object> {
   public u8<V extends keyof T>(name: MatchingType<T, V, number>): this;
   public u8<V extends keyof U>(name: V, opts: HasTemp<number, U[V]>): this;
   public u8(name: keyof T | keyof U, opts: ReadOpts<number, any> = {}): this {
-    return this.#store(name, this.#r.u8(), opts);
+    return this.#read(name, 'u8', () => this.#r.u8(), opts);
   }
 
   /**
@@ -338,7 +532,9 @@ export class Packet<T extends object, U = object> {
   public u16<V extends keyof T>(name: MatchingType<T, V, number>): this;
   public u16<V extends keyof U>(name: V, opts: HasTemp<number, U[V]>): this;
   public u16(name: keyof T | keyof U, opts: ReadOpts<number, any> = {}): this {
-    return this.#store(name, this.#r.u16(opts.littleEndian), opts);
+    return this.#read(
+      name, 'u16', () => this.#r.u16(opts.littleEndian), opts
+    );
   }
 
   /**
@@ -352,7 +548,9 @@ export class Packet<T extends object, U = object> {
   public u32<V extends keyof T>(name: MatchingType<T, V, number>): this;
   public u32<V extends keyof U>(name: V, opts: HasTemp<number, U[V]>): this;
   public u32(name: keyof T | keyof U, opts: ReadOpts<number, any> = {}): this {
-    return this.#store(name, this.#r.u32(opts.littleEndian), opts);
+    return this.#read(
+      name, 'u32', () => this.#r.u32(opts.littleEndian), opts
+    );
   }
 
   /**
@@ -366,7 +564,9 @@ export class Packet<T extends object, U = object> {
   public u64<V extends keyof T>(name: MatchingType<T, V, bigint>): this;
   public u64<V extends keyof U>(name: V, opts: HasTemp<bigint, U[V]>): this;
   public u64(name: keyof T | keyof U, opts: ReadOpts<bigint, any> = {}): this {
-    return this.#store(name, this.#r.u64(opts.littleEndian), opts);
+    return this.#read(
+      name, 'u64', () => this.#r.u64(opts.littleEndian), opts
+    );
   }
 
   /**
@@ -380,7 +580,7 @@ export class Packet<T extends object, U = object> {
   public i8<V extends keyof T>(name: MatchingType<T, V, number>): this;
   public i8<V extends keyof U>(name: V, opts: HasTemp<number, U[V]>): this;
   public i8(name: keyof T | keyof U, opts: ReadOpts<number, any> = {}): this {
-    return this.#store(name, this.#r.i8(), opts);
+    return this.#read(name, 'i8', () => this.#r.i8(), opts);
   }
 
   /**
@@ -394,7 +594,9 @@ export class Packet<T extends object, U = object> {
   public i16<V extends keyof T>(name: MatchingType<T, V, number>): this;
   public i16<V extends keyof U>(name: V, opts: HasTemp<number, U[V]>): this;
   public i16(name: keyof T | keyof U, opts: ReadOpts<number, any> = {}): this {
-    return this.#store(name, this.#r.i16(opts.littleEndian), opts);
+    return this.#read(
+      name, 'i16', () => this.#r.i16(opts.littleEndian), opts
+    );
   }
 
   /**
@@ -408,7 +610,9 @@ export class Packet<T extends object, U = object> {
   public i32<V extends keyof T>(name: MatchingType<T, V, number>): this;
   public i32<V extends keyof U>(name: V, opts: HasTemp<number, U[V]>): this;
   public i32(name: keyof T | keyof U, opts: ReadOpts<number, any> = {}): this {
-    return this.#store(name, this.#r.i32(opts.littleEndian), opts);
+    return this.#read(
+      name, 'i32', () => this.#r.i32(opts.littleEndian), opts
+    );
   }
 
   /**
@@ -422,7 +626,9 @@ export class Packet<T extends object, U = object> {
   public i64<V extends keyof T>(name: MatchingType<T, V, bigint>): this;
   public i64<V extends keyof U>(name: V, opts: HasTemp<bigint, U[V]>): this;
   public i64(name: keyof T | keyof U, opts: ReadOpts<bigint, any> = {}): this {
-    return this.#store(name, this.#r.i64(opts.littleEndian), opts);
+    return this.#read(
+      name, 'i64', () => this.#r.i64(opts.littleEndian), opts
+    );
   }
 
   /**
@@ -436,7 +642,9 @@ export class Packet<T extends object, U = object> {
   public f16<V extends keyof T>(name: MatchingType<T, V, number>): this;
   public f16<V extends keyof U>(name: V, opts: HasTemp<number, U[V]>): this;
   public f16(name: keyof T | keyof U, opts: ReadOpts<number, any> = {}): this {
-    return this.#store(name, this.#r.f16(opts.littleEndian), opts);
+    return this.#read(
+      name, 'f16', () => this.#r.f16(opts.littleEndian), opts
+    );
   }
 
   /**
@@ -450,7 +658,9 @@ export class Packet<T extends object, U = object> {
   public f32<V extends keyof T>(name: MatchingType<T, V, number>): this;
   public f32<V extends keyof U>(name: V, opts: HasTemp<number, U[V]>): this;
   public f32(name: keyof T | keyof U, opts: ReadOpts<number, any> = {}): this {
-    return this.#store(name, this.#r.f32(opts.littleEndian), opts);
+    return this.#read(
+      name, 'f32', () => this.#r.f32(opts.littleEndian), opts
+    );
   }
 
   /**
@@ -464,7 +674,243 @@ export class Packet<T extends object, U = object> {
   public f64<V extends keyof T>(name: MatchingType<T, V, number>): this;
   public f64<V extends keyof U>(name: V, opts: HasTemp<number, U[V]>): this;
   public f64(name: keyof T | keyof U, opts: ReadOpts<number, any> = {}): this {
-    return this.#store(name, this.#r.f64(opts.littleEndian), opts);
+    return this.#read(
+      name, 'f64', () => this.#r.f64(opts.littleEndian), opts
+    );
+  }
+
+  /**
+   * Store a timestamp as a Date.
+   *
+   * @param name Field to write to in packet or temp.
+   * @param format Time format.
+   * @param opts Read options.
+   * @returns This, for chaining.
+   */
+  public timestamp<V extends keyof T>(
+    name: V, format: TimestampFormat, opts: NotTemp<Date, T[V]>
+  ): this;
+  public timestamp<V extends keyof T>(
+    name: MatchingType<T, V, Date>, format: TimestampFormat
+  ): this;
+  public timestamp<V extends keyof U>(
+    name: V, format: TimestampFormat, opts: HasTemp<Date, U[V]>
+  ): this;
+  public timestamp(
+    name: keyof T | keyof U,
+    format: TimestampFormat,
+    opts: ReadOpts<Date, any> = {}
+  ): this {
+    return this.#read(name, 'timestamp', () => (
+      this.#r.timestamp(format, opts.littleEndian)
+    ), opts);
+  }
+
+  /**
+   * Store a timestamp as bigint nanoseconds since 1970, without losing
+   * precision.
+   *
+   * @param name Field to write to in packet or temp.
+   * @param format Time format.
+   * @param opts Read options.
+   * @returns This, for chaining.
+   */
+  public timestampNs<V extends keyof T>(
+    name: V, format: TimestampFormat, opts: NotTemp<bigint, T[V]>
+  ): this;
+  public timestampNs<V extends keyof T>(
+    name: MatchingType<T, V, bigint>, format: TimestampFormat
+  ): this;
+  public timestampNs<V extends keyof U>(
+    name: V, format: TimestampFormat, opts: HasTemp<bigint, U[V]>
+  ): this;
+  public timestampNs(
+    name: keyof T | keyof U,
+    format: TimestampFormat,
+    opts: ReadOpts<bigint, any> = {}
+  ): this {
+    return this.#read(name, 'timestampNs', () => (
+      this.#r.timestampNs(format, opts.littleEndian)
+    ), opts);
+  }
+
+  /**
+   * Store an IPv4 address as a dotted quad.
+   *
+   * @param name Field to write to in packet or temp.
+   * @param opts Read options.
+   * @returns This, for chaining.
+   */
+  public ipv4<V extends keyof T>(name: V, opts: NotTemp<string, T[V]>): this;
+  public ipv4<V extends keyof T>(name: MatchingType<T, V, string>): this;
+  public ipv4<V extends keyof U>(name: V, opts: HasTemp<string, U[V]>): this;
+  public ipv4(name: keyof T | keyof U, opts: ReadOpts<string, any> = {}): this {
+    return this.#read(name, 'ipv4', () => this.#r.ipv4(), opts);
+  }
+
+  /**
+   * Store an IPv6 address in the RFC 5952 format.
+   *
+   * @param name Field to write to in packet or temp.
+   * @param opts Read options.
+   * @returns This, for chaining.
+   */
+  public ipv6<V extends keyof T>(name: V, opts: NotTemp<string, T[V]>): this;
+  public ipv6<V extends keyof T>(name: MatchingType<T, V, string>): this;
+  public ipv6<V extends keyof U>(name: V, opts: HasTemp<string, U[V]>): this;
+  public ipv6(name: keyof T | keyof U, opts: ReadOpts<string, any> = {}): this {
+    return this.#read(name, 'ipv6', () => this.#r.ipv6(), opts);
+  }
+
+  /**
+   * Store a MAC address as colon-separated hex.
+   *
+   * @param name Field to write to in packet or temp.
+   * @param opts Read options.
+   * @returns This, for chaining.
+   */
+  public mac<V extends keyof T>(name: V, opts: NotTemp<string, T[V]>): this;
+  public mac<V extends keyof T>(name: MatchingType<T, V, string>): this;
+  public mac<V extends keyof U>(name: V, opts: HasTemp<string, U[V]>): this;
+  public mac(name: keyof T | keyof U, opts: ReadOpts<string, any> = {}): this {
+    return this.#read(name, 'mac', () => this.#r.mac(), opts);
+  }
+
+  /**
+   * Start a region of bytes to be covered by a checksum, at the current
+   * offset.  Regions may be nested.
+   *
+   * @returns This, for chaining.
+   */
+  public beginChecksum(): this {
+    this.#regions.push(this.#r.beginChecksum());
+    return this;
+  }
+
+  /**
+   * End the innermost checksum region at the current offset, such as when
+   * the checksum is not directly after the bytes it covers.
+   *
+   * @returns This, for chaining.
+   * @throws {Error} No checksum region.
+   */
+  public endChecksum(): this {
+    const region = this.#region();
+    this.#regions.push(this.#r.endChecksum(region));
+    return this;
+  }
+
+  /**
+   * Read and store a checksum, and check it against the innermost checksum
+   * region, which is finished.  If the region has not been ended, it ends
+   * just before the checksum.  The checksum is read as an unsigned integer
+   * of the algorithm's size.  If truncation is allowed, a mismatch is
+   * recorded in the reader's checksumErrors instead of being thrown.
+   *
+   * @param name Field to write to in packet or temp.
+   * @param algorithm Name of a built-in algorithm, or a custom algorithm.
+   * @param opts Read options.
+   * @returns This, for chaining.
+   * @throws {ChecksumError} Mismatch, if truncation is not allowed.
+   * @throws {TypeError} Unknown algorithm.
+   * @throws {Error} No checksum region.
+   */
+  public verifyChecksum<V extends keyof T>(
+    name: V,
+    algorithm: ChecksumName | ChecksumAlgorithm,
+    opts: NotTemp<number, T[V]>
+  ): this;
+  public verifyChecksum<V extends keyof T>(
+    name: MatchingType<T, V, number>,
+    algorithm: ChecksumName | ChecksumAlgorithm
+  ): this;
+  public verifyChecksum<V extends keyof U>(
+    name: V,
+    algorithm: ChecksumName | ChecksumAlgorithm,
+    opts: HasTemp<number, U[V]>
+  ): this;
+  public verifyChecksum(
+    name: keyof T | keyof U,
+    algorithm: ChecksumName | ChecksumAlgorithm,
+    opts: ReadOpts<number, any> = {}
+  ): this {
+    const alg = checksumAlgorithm(algorithm);
+    const open = this.#region();
+    const region = (open.end === undefined) ?
+      this.#r.endChecksum(open) :
+      open;
+    try {
+      return this.#read(name, 'verifyChecksum', () => {
+        const expected = Number(this.#r.uint(alg.size, opts.littleEndian));
+        this.#r.verifyChecksum(region, alg, expected);
+        return expected;
+      }, opts);
+    } catch (e) {
+      // Leave the region open, so that the caller can recover.
+      this.#regions.push(open);
+      throw e;
+    }
+  }
+
+  /**
+   * Store an integer, mapped to a name.
+   *
+   * @param name Field to write to in packet or temp.
+   * @param from Type of the integer.
+   * @param map Map from values to names, from enumMap().
+   * @param opts Read options.
+   * @returns This, for chaining.
+   * @throws {ValidationError} Unknown value, with the "throw" policy.
+   */
+  public enum<V extends keyof T, N extends string | number>(
+    name: V, from: EnumRead, map: EnumMap<N>, opts: NotTemp<N, T[V]>
+  ): this;
+  public enum<V extends keyof T, N extends string | number>(
+    name: MatchingType<T, V, N>, from: EnumRead, map: EnumMap<N>
+  ): this;
+  public enum<V extends keyof U, N extends string | number>(
+    name: V, from: EnumRead, map: EnumMap<N>, opts: HasTemp<N, U[V]>
+  ): this;
+  public enum(
+    name: keyof T | keyof U,
+    from: EnumRead,
+    map: EnumMap<string | number>,
+    opts: ReadOpts<string | number, any> = {}
+  ): this {
+    return this.#read(name, 'enum', () => {
+      const n = this.#r[from](opts.littleEndian);
+      return this.#r.truncated ? n : map.lookup(n);
+    }, opts);
+  }
+
+  /**
+   * Store an integer, as the set of names of the flags that are set.
+   *
+   * @param name Field to write to in packet or temp.
+   * @param from Type of the integer.
+   * @param map Map from names to bit positions, from flagMap().
+   * @param opts Read options.
+   * @returns This, for chaining.
+   */
+  public flags<V extends keyof T, N extends string>(
+    name: V, from: FlagsRead, map: FlagMap<N>, opts: NotTemp<Set<N>, T[V]>
+  ): this;
+  public flags<V extends keyof T, N extends string>(
+    name: MatchingType<T, V, Set<N>>, from: FlagsRead, map: FlagMap<N>
+  ): this;
+  public flags<V extends keyof U, N extends string>(
+    name: V, from: FlagsRead, map: FlagMap<N>, opts: HasTemp<Set<N>, U[V]>
+  ): this;
+  public flags(
+    name: keyof T | keyof U,
+    from: FlagsRead,
+    map: FlagMap<string>,
+    opts: ReadOpts<Set<string>, any> = {}
+  ): this {
+    return this.#read(name, 'flags', () => {
+      const n = this.#r[from](opts.littleEndian);
+      return this.#r.truncated ? n : map.lookup(n);
+    }, opts);
   }
 
   /**
@@ -499,7 +945,7 @@ export class Packet<T extends object, U = object> {
     fn: (n: number) => FieldType,
     opts: ReadOpts<FieldType[], any> = {}
   ): this {
-    return this.#store(name, this.#r.times(num, fn), opts);
+    return this.#read(name, 'times', () => this.#r.times(num, fn), opts);
   }
 
   /**
@@ -549,12 +995,15 @@ export class Packet<T extends object, U = object> {
     read: (iteration: number, r: DataViewReader) => W,
     opts: ReadOpts<W[], any> = {temp: false}
   ): this {
-    const res: W[] = [];
-    let it = 0;
-    while (!this.#r.truncated && keepGoing.call(this, it, this.#r)) {
-      res.push(read.call(this, it++, this.#r));
-    }
-    return this.#store(name, res, opts);
+    return this.#read(name, 'while', () => {
+      const res: W[] = [];
+      let it = 0;
+      while (!this.#r.truncated && keepGoing.call(this, it, this.#r)) {
+        const i = it++;
+        res.push(this.#r.field(i, '', () => read.call(this, i, this.#r)));
+      }
+      return res;
+    }, opts);
   }
 
   /**
@@ -641,14 +1090,120 @@ export class Packet<T extends object, U = object> {
     }
 
     assert(toTemp || to, 'Invalid to/toTemp');
-    return this.#store(
+    return this.#read(
       (toTemp ?? to) as keyof T | keyof U,
+      'bits',
+      () => val,
       // @ts-expect-error Might be a set, oh well, this is internal.
-      val,
       {temp: Boolean(toTemp), convert}
     );
   }
 
+  /**
+   * Switch into bit mode, so that readBits, readBigBits and readFlag can
+   * read fields that span byte boundaries.  Bytes are consumed from the
+   * reader as bits are needed, so byte-oriented reads in bit mode start at
+   * the byte after the one that is partially read, and the rest of that byte
+   * is discarded.
+   *
+   * @param opts Bit order options.
+   * @returns This, for chaining.
+   * @throws {Error} Already in bit mode.
+   */
+  public startBits(opts: BitReaderOptions = {}): this {
+    if (this.#bits) {
+      throw new Error('Already in bit mode');
+    }
+    this.#bits = new BitReader(this.#r, opts);
+    return this;
+  }
+
+  /**
+   * Leave bit mode, discarding any bits left over in the current byte.
+   *
+   * @returns This, for chaining.
+   */
+  public endBits(): this {
+    this.#bitReader().align();
+    this.#bits = undefined;
+    return this;
+  }
+
+  /**
+   * Store an unsigned integer of up to 53 bits.  Must be in bit mode.
+   *
+   * @param name Field to write to in packet or temp.
+   * @param n Number of bits.
+   * @param opts Read options.
+   * @returns This, for chaining.
+   */
+  public readBits<V extends keyof T>(
+    name: V, n: number, opts: NotTemp<number, T[V]>
+  ): this;
+  public readBits<V extends keyof T>(
+    name: MatchingType<T, V, number>, n: number
+  ): this;
+  public readBits<V extends keyof U>(
+    name: V, n: number, opts: HasTemp<number, U[V]>
+  ): this;
+  public readBits(
+    name: keyof T | keyof U, n: number, opts: ReadOpts<number, any> = {}
+  ): this {
+    return this.#read(
+      name, 'readBits', () => this.#bitReader().readBits(n), opts
+    );
+  }
+
+  /**
+   * Store an unsigned integer of any number of bits as a bigint.  Must be in
+   * bit mode.
+   *
+   * @param name Field to write to in packet or temp.
+   * @param n Number of bits.
+   * @param opts Read options.
+   * @returns This, for chaining.
+   */
+  public readBigBits<V extends keyof T>(
+    name: V, n: number, opts: NotTemp<bigint, T[V]>
+  ): this;
+  public readBigBits<V extends keyof T>(
+    name: MatchingType<T, V, bigint>, n: number
+  ): this;
+  public readBigBits<V extends keyof U>(
+    name: V, n: number, opts: HasTemp<bigint, U[V]>
+  ): this;
+  public readBigBits(
+    name: keyof T | keyof U, n: number, opts: ReadOpts<bigint, any> = {}
+  ): this {
+    return this.#read(
+      name, 'readBigBits', () => this.#bitReader().readBigBits(n), opts
+    );
+  }
+
+  /**
+   * Store a single bit as a boolean.  Must be in bit mode.
+   *
+   * @param name Field to write to in packet or temp.
+   * @param opts Read options.
+   * @returns This, for chaining.
+   */
+  public readFlag<V extends keyof T>(
+    name: V, opts: NotTemp<boolean, T[V]>
+  ): this;
+  public readFlag<V extends keyof T>(
+    name: MatchingType<T, V, boolean>
+  ): this;
+  public readFlag<V extends keyof U>(
+    name: V, opts: HasTemp<boolean, U[V]>
+  ): this;
+  public readFlag(
+    name: keyof T | keyof U, opts: ReadOpts<boolean, any> = {}
+  ): this {
+    return this.#read(
+      name, 'readFlag', () => this.#bitReader().readBit() === 1, opts
+    );
+  }
+
   /**
    * Store a constant to the packet.
    *
@@ -675,7 +1230,53 @@ export class Packet<T extends object, U = object> {
     val: FieldType,
     opts: ReadOpts<FieldType, any> = {}
   ): this {
-    return this.#store(name, val, opts);
+    return this.#read(name, 'constant', () => val, opts);
+  }
+
+  /**
+   * Get the current bit reader.
+   *
+   * @returns Bit reader.
+   * @throws {Error} Not in bit mode.
+   */
+  #bitReader(): BitReader {
+    if (!this.#bits) {
+      throw new Error('Not in bit mode, call startBits() first');
+    }
+    return this.#bits;
+  }
+
+  /**
+   * Remove the innermost checksum region.
+   *
+   * @returns Region.
+   * @throws {Error} No checksum region.
+   */
+  #region(): ChecksumRegion {
+    const region = this.#regions.pop();
+    if (!region) {
+      throw new Error('No checksum region, call beginChecksum() first');
+    }
+    return region;
+  }
+
+  /**
+   * Read a field, then store it.  Errors thrown while reading get the field
+   * name added to their path.
+   *
+   * @param name Field to write to in packet or temp.
+   * @param kind Kind of read, for errors and tracing.
+   * @param read Function that reads the value.
+   * @param opts Read options.
+   * @returns This, for chaining.
+   */
+  #read<V extends FieldType>(
+    name: keyof T | keyof U,
+    kind: string,
+    read: () => V,
+    opts: ReadOpts<V, any>
+  ): this {
+    return this.#store(name, this.#r.field(name as string, kind, read), opts);
   }
 
   #store<V extends FieldType>(
@@ -1,10 +1,26 @@
 import {
   CUSTOM_INSPECT,
   type InspectOptions,
-  u8toHex,
 } from './inspect.ts';
+import {
+  type Checksum,
+  type ChecksumAlgorithm,
+  type ChecksumName,
+  checksumAlgorithm,
+} from './checksum.ts';
+import {type FixedPoint, fixedBytes, toFixed} from './fixed.ts';
+import {type TimestampFormat, encodeTimestamp} from './timestamp.ts';
+import {
+  type TypedArrayKind,
+  type TypedArrays,
+  typedArrayBytes,
+} from './typedArray.ts';
+import {type UuidLayout, parseUUID} from './uuid.ts';
 import {assert, promiseWithResolvers} from '@cto.af/utils';
 import {halfToUint, isF16} from './half.ts';
+import {parseIPv4, parseIPv6, parseMAC} from './address.ts';
+import type {LengthPrefix} from './reader.ts';
+import {hexdump} from './hexdump.ts';
 
 export {
   isF16,
@@ -44,6 +60,14 @@ const TE = new TextEncoder();
 const NOT_INITIALIZED = 'DataViewReadableStream not initialized, await .ready';
 const INTERNAL = Symbol('DataViewReadableStream internal');
 
+// Largest value that fits in a QUIC varint of the given size in bytes.
+const QUIC_MAX: {[size: number]: number | bigint} = {
+  1: 0x3f,
+  2: 0x3fff,
+  4: 0x3fffffff,
+  8: 0x3fffffffffffffffn,
+};
+
 /**
  * Is the number an integer in the given range, inclusive?
  *
@@ -62,6 +86,33 @@ function intRange(
   }
 }
 
+/**
+ * Convert a string to ASCII bytes.
+ *
+ * @param s Latin-1 string.
+ * @returns Bytes.
+ * @throws {RangeError} Character not in 0-256.
+ */
+function asciiBytes(s: string): Uint8Array {
+  const {length} = s; // For ASCII, length is bytes.
+  return Uint8Array.from({length}, (_, i) => {
+    const cp = s.charCodeAt(i);
+    if (cp > 0xff) {
+      throw new RangeError(`Invalid ASCII character: "${String.fromCharCode(cp)}" (U+${cp.toString(16).padStart(4, '0')})`);
+    }
+    return cp;
+  });
+}
+
+/** A checksum region that has not been closed yet. */
+interface OpenChecksum {
+  algorithm: ChecksumAlgorithm;
+  sum: Checksum;
+
+  /** Bytes at the start of the current chunk that are not covered. */
+  skip: number;
+}
+
 /**
  * Write bytes to a growing buffer.  Intended for relatively-small final
  * buffer sizes; everything is held in memory.
@@ -78,8 +129,10 @@ export class DataViewReadableStream extends ReadableStream<Uint8Array> {
   #chunk: Uint8Array;
   #dv: DataView | null = null; // View over last chunk.
   #offset = 0;
+  #flushed = 0; // Bytes enqueued before the last chunk.
   #controller: ReadableStreamDefaultController | undefined = undefined;
   #ready: Promise<void>;
+  #checksums: OpenChecksum[] = [];
 
   private constructor(
     options: DataViewReadableStreamOptions,
@@ -133,6 +186,14 @@ export class DataViewReadableStream extends ReadableStream<Uint8Array> {
     this.#opts.littleEndian = value;
   }
 
+  /**
+   * Total number of bytes written so far, including those that have been
+   * flushed.
+   */
+  public get length(): number {
+    return this.#flushed + this.#offset;
+  }
+
   public static async create(
     options: DataViewReadableStreamOptions = {}
   ): Promise<DataViewReadableStream> {
@@ -174,6 +235,55 @@ export class DataViewReadableStream extends ReadableStream<Uint8Array> {
     return this;
   }
 
+  /**
+   * Write many numbers at once from a typed array, such as audio samples.
+   * If the array is already in the right byte order, its bytes are written
+   * directly, otherwise they are swapped into a copy.
+   *
+   * @param arr Typed array.
+   * @param littleEndian Override stream's littleEndian option.
+   * @returns This, for chaining.
+   */
+  public typedArray(
+    arr: TypedArrays[TypedArrayKind],
+    littleEndian = this.#opts.littleEndian
+  ): this {
+    const buf = typedArrayBytes(arr, littleEndian);
+    return this.bytes(
+      buf, (buf.buffer === arr.buffer) && this.#opts.copyBuffers
+    );
+  }
+
+  /**
+   * Write padding bytes.
+   *
+   * @param length Number of bytes.
+   * @param fill Value for each byte.
+   * @returns This, for chaining.
+   * @throws {RangeError} Invalid length or fill.
+   */
+  public pad(length: number, fill = 0): this {
+    intRange(length, 0, Number.MAX_SAFE_INTEGER);
+    intRange(fill, 0, 0xff);
+    return this.bytes(new Uint8Array(length).fill(fill), false);
+  }
+
+  /**
+   * Write padding bytes until the total length is a multiple of n bytes from
+   * relativeTo.
+   *
+   * @param n Alignment in bytes.
+   * @param relativeTo Offset that alignment is measured from, such as the
+   *   start of the current block.
+   * @param fill Value for each byte.
+   * @returns This, for chaining.
+   * @throws {RangeError} Invalid alignment or fill.
+   */
+  public align(n: number, relativeTo = 0, fill = 0): this {
+    intRange(n, 1, Number.MAX_SAFE_INTEGER);
+    return this.pad((n - ((this.length - relativeTo) % n)) % n, fill);
+  }
+
   /**
    * Write a single unsigned byte.
    *
@@ -278,6 +388,48 @@ export class DataViewReadableStream extends ReadableStream<Uint8Array> {
     return this.#advance(8);
   }
 
+  /**
+   * Write an unsigned integer of any size from 1 to 8 bytes, such as the
+   * 3-byte lengths in TLS and HTTP/2.
+   *
+   * @param n Unsigned integer.
+   * @param bytes Number of bytes, from 1-8.
+   * @param littleEndian Override stream's littleEndian option.
+   * @returns This, for chaining.
+   * @throws {RangeError} Invalid size, or number out of range.
+   */
+  public uint(
+    n: number | bigint,
+    bytes: number,
+    littleEndian = this.#opts.littleEndian
+  ): this {
+    intRange(bytes, 1, 8);
+    intRange(n, 0n, (1n << BigInt(bytes * 8)) - 1n);
+    return this.#writeInt(BigInt(n), bytes, littleEndian);
+  }
+
+  /**
+   * Write a two's-complement signed integer of any size from 1 to 8 bytes.
+   *
+   * @param n Signed integer.
+   * @param bytes Number of bytes, from 1-8.
+   * @param littleEndian Override stream's littleEndian option.
+   * @returns This, for chaining.
+   * @throws {RangeError} Invalid size, or number out of range.
+   */
+  public int(
+    n: number | bigint,
+    bytes: number,
+    littleEndian = this.#opts.littleEndian
+  ): this {
+    intRange(bytes, 1, 8);
+    const top = 1n << BigInt((bytes * 8) - 1);
+    intRange(n, -top, top - 1n);
+    return this.#writeInt(
+      BigInt.asUintN(bytes * 8, BigInt(n)), bytes, littleEndian
+    );
+  }
+
   /**
    * Write a two-byte float.
    *
@@ -328,6 +480,126 @@ export class DataViewReadableStream extends ReadableStream<Uint8Array> {
     return this.#advance(8);
   }
 
+  /**
+   * Write a fixed-point number.
+   *
+   * @param n Number that fits in the format without losing precision.
+   * @param format Layout of the number.
+   * @param littleEndian Override stream's littleEndian option.
+   * @returns This, for chaining.
+   * @throws {RangeError} Invalid format, number out of range, or number
+   *   would lose precision.
+   */
+  public fixed(
+    n: number,
+    format: FixedPoint,
+    littleEndian = this.#opts.littleEndian
+  ): this {
+    const bytes = fixedBytes(format);
+    return this.#writeInt(toFixed(n, format), bytes, littleEndian);
+  }
+
+  /**
+   * Write a timestamp.
+   *
+   * @param time Date, or bigint nanoseconds since 1970-01-01T00:00:00Z.
+   * @param format Time format.
+   * @param littleEndian Override stream's littleEndian option.
+   * @returns This, for chaining.
+   * @throws {RangeError} Invalid date, time out of range for the format, or
+   *   time would lose precision.
+   * @throws {TypeError} Invalid format.
+   */
+  public timestamp(
+    time: Date | bigint,
+    format: TimestampFormat,
+    littleEndian = this.#opts.littleEndian
+  ): this {
+    return this.bytes(encodeTimestamp(format, time, littleEndian));
+  }
+
+  /**
+   * Write an IPv4 address.
+   *
+   * @param addr Dotted quad, such as "192.0.2.1".
+   * @returns This, for chaining.
+   * @throws {RangeError} Malformed address.
+   */
+  public ipv4(addr: string): this {
+    return this.bytes(parseIPv4(addr), false);
+  }
+
+  /**
+   * Write an IPv6 address.
+   *
+   * @param addr Textual address, such as "2001:db8::1".
+   * @returns This, for chaining.
+   * @throws {RangeError} Malformed address.
+   */
+  public ipv6(addr: string): this {
+    return this.bytes(parseIPv6(addr), false);
+  }
+
+  /**
+   * Write a MAC address.
+   *
+   * @param addr Hex bytes separated by colons or hyphens, such as
+   *   "00:00:5e:00:53:01".
+   * @returns This, for chaining.
+   * @throws {RangeError} Malformed address.
+   */
+  public mac(addr: string): this {
+    return this.bytes(parseMAC(addr), false);
+  }
+
+  /**
+   * Write a UUID.
+   *
+   * @param uuid Hyphenated form, such as
+   *   "f81d4fae-7dec-11d0-a765-00a0c91e6bf6".
+   * @param layout Byte layout, "microsoft" for Windows GUIDs.
+   * @returns This, for chaining.
+   * @throws {RangeError} Malformed UUID.
+   * @throws {TypeError} Invalid layout.
+   */
+  public uuid(uuid: string, layout: UuidLayout = 'rfc'): this {
+    return this.bytes(parseUUID(uuid, layout), false);
+  }
+
+  /**
+   * Write a QUIC variable-length integer (RFC 9000, section 16).  Always
+   * big-endian.
+   *
+   * @param n Unsigned integer, less than 2**62.
+   * @param size Size of the encoding in bytes.  If not specified, the
+   *   shortest encoding is used.
+   * @returns This, for chaining.
+   * @throws {RangeError} Number out of range, or does not fit in size.
+   */
+  public quicVarint(n: number | bigint, size?: 1 | 2 | 4 | 8): this {
+    if (size === undefined) {
+      intRange(n, 0n, QUIC_MAX[8]);
+      size = ([1, 2, 4] as const).find(sz => n <= QUIC_MAX[sz]) ?? 8;
+    } else {
+      const max = QUIC_MAX[size];
+      if (max === undefined) {
+        throw new RangeError(`Invalid QUIC varint size: ${size}`);
+      }
+      intRange(n, 0n, max);
+    }
+
+    switch (size) {
+      case 1:
+        return this.u8(Number(n));
+      case 2:
+        return this.u16(Number(n) + 0x4000, false);
+      case 4:
+        return this.u32(Number(n) + 0x80000000, false);
+      default:
+        return this.u64(BigInt(n) | 0xc000000000000000n, false);
+    }
+  }
+
   /**
    * Encode the string as UTF8.
    *
@@ -339,6 +611,31 @@ export class DataViewReadableStream extends ReadableStream<Uint8Array> {
     return this.bytes(TE.encode(s), false);
   }
 
+  /**
+   * Encode the string as UTF16.
+   *
+   * @param s String.  Unpaired surrogates are written as-is.
+   * @param littleEndian Override stream's littleEndian option.
+   * @param bom If true, start with a byte order mark.
+   * @returns This, for chaining.
+   */
+  public utf16(
+    s: string,
+    littleEndian = this.#opts.littleEndian,
+    bom = false
+  ): this {
+    const start = bom ? 1 : 0;
+    const buf = new Uint8Array((s.length + start) * 2);
+    const dv = new DataView(buf.buffer);
+    if (bom) {
+      dv.setUint16(0, 0xfeff, littleEndian);
+    }
+    for (let i = 0; i < s.length; i++) {
+      dv.setUint16((i + start) * 2, s.charCodeAt(i), littleEndian);
+    }
+    return this.bytes(buf, false);
+  }
+
   /**
    * Convert a string to ASCII bytes.
    *
@@ -347,15 +644,116 @@ export class DataViewReadableStream extends ReadableStream<Uint8Array> {
    * @throws {RangeError} Character not in 0-256.
    */
   public ascii(s: string): this {
-    const {length} = s; // For ASCII, length is bytes.
-    const buf = Uint8Array.from({length}, (_, i) => {
-      const cp = s.charCodeAt(i);
-      if (cp > 0xff) {
-        throw new RangeError(`Invalid ASCII character: "${String.fromCharCode(cp)}" (U+${cp.toString(16).padStart(4, '0')})`);
-      }
-      return cp;
+    return this.bytes(asciiBytes(s), false);
+  }
+
+  /**
+   * Write the length of the buffer as an unsigned integer, followed by the
+   * buffer.
+   *
+   * @param buf Bytes to write.
+   * @param prefix Type of the length.
+   * @param littleEndian Override stream's littleEndian option for the length.
+   * @returns This, for chaining.
+   * @throws {RangeError} Buffer too long for prefix.
+   */
+  public prefixedBytes(
+    buf: Uint8Array,
+    prefix: LengthPrefix = 'u8',
+    littleEndian = this.#opts.littleEndian
+  ): this {
+    return this[prefix](buf.length, littleEndian).bytes(buf);
+  }
+
+  /**
+   * Write the length of the ASCII-encoded string as an unsigned integer,
+   * followed by the string.
+   *
+   * @param s Latin-1 string.
+   * @param prefix Type of the length.
+   * @param littleEndian Override stream's littleEndian option for the length.
+   * @returns This, for chaining.
+   * @throws {RangeError} Character not in 0-256, or string too long for
+   *   prefix.
+   */
+  public prefixedAscii(
+    s: string,
+    prefix: LengthPrefix = 'u8',
+    littleEndian = this.#opts.littleEndian
+  ): this {
+    return this.prefixedBytes(asciiBytes(s), prefix, littleEndian);
+  }
+
+  /**
+   * Write the length of the UTF8-encoded string as an unsigned integer,
+   * followed by the string.
+   *
+   * @param s String.  If there are unpaired surrogates, they will be switched
+   *   to the replacement character.
+   * @param prefix Type of the length.
+   * @param littleEndian Override stream's littleEndian option for the length.
+   * @returns This, for chaining.
+   * @throws {RangeError} String too long for prefix.
+   */
+  public prefixedUtf8(
+    s: string,
+    prefix: LengthPrefix = 'u8',
+    littleEndian = this.#opts.littleEndian
+  ): this {
+    return this.prefixedBytes(TE.encode(s), prefix, littleEndian);
+  }
+
+  /**
+   * Start a region of bytes to be covered by a checksum.  Every byte written
+   * until the matching endChecksum() is added to the checksum as it is
+   * written, so the region may be larger than a chunk.  Regions may be
+   * nested.
+   *
+   * @param algorithm Name of a built-in algorithm, or a custom algorithm.
+   * @returns This, for chaining.
+   * @throws {TypeError} Unknown algorithm.
+   */
+  public beginChecksum(algorithm: ChecksumName | ChecksumAlgorithm): this {
+    const alg = checksumAlgorithm(algorithm);
+    this.#checksums.push({
+      algorithm: alg,
+      sum: alg.create(),
+      skip: this.#offset,
     });
-    return this.bytes(buf, false);
+    return this;
+  }
+
+  /**
+   * End the innermost checksum region, and write the checksum as an unsigned
+   * integer.  The checksum is covered by any enclosing regions.
+   *
+   * @param size Number of bytes to write, from 1-8.  Defaults to the size
+   *   of the algorithm.
+   * @param littleEndian Override stream's littleEndian option.
+   * @returns This, for chaining.
+   * @throws {RangeError} Checksum does not fit in size.
+   * @throws {Error} No checksum region.
+   */
+  public endChecksum(
+    size?: number,
+    littleEndian = this.#opts.littleEndian
+  ): this {
+    const open = this.#checksums.pop();
+    if (!open) {
+      throw new Error('No checksum region, call beginChecksum() first');
+    }
+    open.sum.update(this.#chunk.subarray(open.skip, this.#offset));
+    open.skip = this.#offset;
+    try {
+      return this.uint(
+        open.sum.digest(), size ?? open.algorithm.size, littleEndian
+      );
+    } catch (e) {
+      // Nothing was written, so the region can be ended again, such as with
+      // a larger size.
+      this.#checksums.push(open);
+      throw e;
+    }
   }
 
   /**
@@ -387,7 +785,7 @@ export class DataViewReadableStream extends ReadableStream<Uint8Array> {
 
   /**
    * When outputting with `console.log('%O', this)` or at the node REPL,
-   * see the current chunk structure.
+   * see a hexdump of the bytes in the current chunk.
    *
    * @param depth Current depth.
    * @param options Options for writing, generated by util.inpect.
@@ -403,7 +801,13 @@ export class DataViewReadableStream extends ReadableStream<Uint8Array> {
 
     let res = `${options.stylize(this.constructor.name, 'special')} [`;
     if (this.#offset) {
-      res += options.stylize(u8toHex(this.#chunk.subarray(0, this.#offset)), 'string');
+      // Highlight the most recently written byte.
+      const dump = hexdump(this.#chunk.subarray(0, this.#offset), {
+        maxBytes: options.maxArrayLength ?? Infinity,
+        mark: this.#offset - 1,
+        stylize: options.colors ? options.stylize : undefined,
+      });
+      res += `\n${dump.replace(/^/gm, '  ')}\n`;
     }
     res += ']';
     return res;
@@ -446,6 +850,24 @@ export class DataViewReadableStream extends ReadableStream<Uint8Array> {
     return this.#dv as DataView;
   }
 
+  /**
+   * Write the low bytes of an unsigned integer.
+   *
+   * @param n Unsigned integer, already range-checked.
+   * @param bytes Number of bytes, from 1-8.
+   * @param littleEndian Write least-significant byte first?
+   * @returns This, for chaining.
+   */
+  #writeInt(n: bigint, bytes: number, littleEndian: boolean): this {
+    this.#makeSpace(bytes);
+    for (let i = 0; i < bytes; i++) {
+      this.#chunk[this.#offset + (littleEndian ? i : bytes - i - 1)] =
+        Number(n & 0xffn);
+      n >>= 8n;
+    }
+    return this.#advance(bytes);
+  }
+
   /**
    * We have added sz bytes.  Update offset and length.
    *
@@ -465,7 +887,12 @@ export class DataViewReadableStream extends ReadableStream<Uint8Array> {
    */
   #enq(buf: Uint8Array): this {
     assert(this.#controller, NOT_INITIALIZED);
+    for (const open of this.#checksums) {
+      open.sum.update(buf.subarray(open.skip));
+      open.skip = 0;
+    }
     this.#controller.enqueue(buf);
+    this.#flushed += buf.length;
     return this;
   }
 }
@@ -1,10 +1,53 @@
-import {CUSTOM_INSPECT, type Inspect, type InspectOptions, u8toHex} from './inspect.ts';
-import {ExtraBytesError, TruncationError} from './errors.ts';
+import {
+  ADDRESS_SIZE,
+  type AddressKind,
+  ipv4ToString,
+  ipv6ToString,
+  macToString,
+} from './address.ts';
+import {CUSTOM_INSPECT, type Inspect, type InspectOptions} from './inspect.ts';
+import {
+  type ChecksumAlgorithm,
+  type ChecksumName,
+  checksum,
+  checksumAlgorithm,
+} from './checksum.ts';
+import {
+  ChecksumError,
+  ExtraBytesError,
+  ReadError,
+  TruncationError,
+  ValidationError,
+  VarintError,
+} from './errors.ts';
+import type {EnumMap, FlagMap} from './mapping.ts';
+import {type FixedPoint, fixedBytes, fromFixed} from './fixed.ts';
+import {
+  type TimestampFormat,
+  decodeTimestamp,
+  nsToDate,
+  timestampSize,
+} from './timestamp.ts';
+import {
+  type TypedArrayKind,
+  type TypedArrays,
+  toTypedArray,
+  typedArrayConstructor,
+} from './typedArray.ts';
+import {
+  UUID_SIZE,
+  type UuidLayout,
+  checkUuidLayout,
+  uuidToString,
+} from './uuid.ts';
+import {decode, decodeUtf16, decoder} from './strings.ts';
 import type {Pretty} from '@cto.af/utils';
+import type {TraceEntry} from './trace.ts';
+import {hexdump} from './hexdump.ts';
 import {parseHalf} from './half.ts';
 
-export type FieldType =
-  number | bigint | string | boolean | Uint8Array | FieldType[];
+export type FieldType = number | bigint | string | boolean | Uint8Array |
+  Date | Set<string> | FieldType[];
 
 export interface ReaderOptions {
   /** Initial offset.  The reset() method will ignore this. */
@@ -13,31 +56,105 @@ export interface ReaderOptions {
   /** Read in littleEndian order, which is OPPOSITE from Network Byte Order. */
   littleEndian?: boolean;
 
-  /** If there is an error in UTF8 encoding, use the replacement character. */
+  /**
+   * If there is an error in UTF8 encoding, use the replacement character.
+   * Also applies to UTF-16 and other encodings.
+   */
   ignoreUTF8errors?: boolean;
 
   /** If true, do not throw exception on truncation. */
   allowTruncation?: boolean;
+
+  /**
+   * If true, record every read in the trace property, for debugging.  Reads
+   * are slower when tracing.
+   */
+  trace?: boolean;
 }
 
 export type RequiredRederOptions = Required<ReaderOptions>;
 
+/** Integer type used for the length of length-prefixed fields. */
+export type LengthPrefix = 'u8' | 'u16' | 'u32';
+
+export interface CStringOptions {
+  /**
+   * Maximum number of bytes to examine, including the terminator.  If this
+   * many bytes are read without finding the terminator, they are all
+   * returned, as for fixed-size fields that are only terminated when short.
+   */
+  maxLength?: number;
+
+  /**
+   * Byte that marks the end of the string.
+   * @default 0
+   */
+  terminator?: number;
+
+  /**
+   * If true, the terminator is read as well.  Otherwise, the read position
+   * is left pointing at the terminator.
+   * @default true
+   */
+  consume?: boolean;
+}
+
+/** Saved reader state, from DataViewReader.checkpoint(). */
+export interface Checkpoint {
+  readonly offset: number;
+  readonly truncated: boolean;
+}
+
+/**
+ * Bytes covered by a checksum, from DataViewReader.beginChecksum().  If end
+ * is not set, the region continues to the current offset.
+ */
+export interface ChecksumRegion {
+  readonly start: number;
+  readonly end?: number;
+}
+
 export interface NumberReader<W> {
-  read: 'u8' | 'u16' | 'u32' |
-    'i8' | 'i16' | 'i32' |
+  read: 'u8' | 'u16' | 'u24' | 'u32' | 'u40' | 'u48' |
+    'i8' | 'i16' | 'i24' | 'i32' | 'i40' | 'i48' |
     'f16' | 'f32' | 'f64';
   littleEndian?: boolean;
   convert?(n: number, tmp: Temp, dvr: DataViewReader): W;
 }
 
 export interface BigIntReader<W> {
-  read: 'u64' | 'i64';
+  read: 'u56' | 'u64' | 'i56' | 'i64';
   littleEndian?: boolean;
   convert?(n: bigint, tmp: Temp, dvr: DataViewReader): W;
 }
 
+/** Read a fixed-point number.  See DataViewReader.fixed(). */
+export interface FixedReader<W> extends FixedPoint {
+  read: 'fixed';
+  littleEndian?: boolean;
+  convert?(n: number, tmp: Temp, dvr: DataViewReader): W;
+}
+
+/** Read a network address as a string. */
+export interface AddressReader<W> {
+  read: AddressKind;
+  convert?(n: string, tmp: Temp, dvr: DataViewReader): W;
+}
+
 export interface StringReader<W> {
-  read: 'ascii' | 'utf8';
+  read: 'ascii' | 'utf8' | 'utf16';
+
+  /** Only used for utf16, if there is no byte order mark. */
+  littleEndian?: boolean;
+  length(temp: Temp, dvr: DataViewReader): number;
+  convert?(n: string, tmp: Temp, dvr: DataViewReader): W;
+}
+
+export interface EncodedStringReader<W> {
+  read: 'string';
+
+  /** Any WHATWG encoding label, such as "windows-1252" or "shift_jis". */
+  encoding: string;
   length(temp: Temp, dvr: DataViewReader): number;
   convert?(n: string, tmp: Temp, dvr: DataViewReader): W;
 }
@@ -53,17 +170,201 @@ export interface ConstantReader<W> {
   value(tmp: Temp, dvr: DataViewReader): W;
 }
 
-export type Reader<W> = NumberReader<W> | BigIntReader<W> |
-  StringReader<W> | BytesReader<W> | ConstantReader<W>;
+/** Skip padding bytes.  No field is output. */
+export interface PadReader {
+  read: 'pad';
+  length: number | ((tmp: Temp, dvr: DataViewReader) => number);
+
+  /** If true, throw an error if any padding byte is not zero. */
+  zero?: boolean;
+}
+
+/**
+ * Skip padding bytes until the offset from the start of the struct is a
+ * multiple of alignment.  No field is output.
+ */
+export interface AlignReader {
+  read: 'align';
+  alignment: number;
+
+  /** If true, throw an error if any padding byte is not zero. */
+  zero?: boolean;
+}
+
+/** Integer reads that can be mapped to enum names. */
+export type EnumRead = 'u8' | 'u16' | 'u32' | 'i8' | 'i16' | 'i32';
+
+/** Integer reads that can be mapped to flag names. */
+export type FlagsRead = EnumRead | 'u64';
+
+/** Read an integer, and map it to a name.  See enumMap(). */
+export interface EnumReader<W, N = unknown> {
+  read: 'enum';
+  from: EnumRead;
+  map: EnumMap<N>;
+  littleEndian?: boolean;
+  convert?(n: N, tmp: Temp, dvr: DataViewReader): W;
+}
+
+/** Read an integer, and map its bits to a set of names.  See flagMap(). */
+export interface FlagsReader<W, N extends string = string> {
+  read: 'flags';
+  from: FlagsRead;
+  map: FlagMap<N>;
+  littleEndian?: boolean;
+  convert?(n: Set<N>, tmp: Temp, dvr: DataViewReader): W;
+}
+
+/**
+ * One sub-field of a "bits" reader.  Bits are numbered with 0 on the right,
+ * like Packet.bits.  Start and finish can be in either order.  A single bit
+ * produces a boolean, and several bits produce a number.
+ */
+export interface BitField {
+  start: number;
+  finish?: number;
+
+  /** If true, treat several bits as a two's-complement signed integer. */
+  signed?: boolean;
+}
+
+/**
+ * Read an integer, and split it into several named sub-fields, such as the
+ * version and header length of an IPv4 header.  No field is output for the
+ * reader itself.  Instead, each sub-field is output, and also stored in temp
+ * so that it can be used for later lengths.  Sub-fields whose names start
+ * with "_" are only stored in temp.  Each sub-field may have up to 53 bits.
+ */
+export interface BitsReader<
+  F extends {[name: string]: BitField} = {[name: string]: BitField}
+> {
+  read: 'bits';
+  from: FlagsRead;
+  littleEndian?: boolean;
+  fields: F;
+}
+
+/** Read a nested structure, which produces an object. */
+export interface StructReader<
+  W,
+  D extends StructDefinition = StructDefinition
+> {
+  read: 'struct';
+
+  /**
+   * Fields of the nested structure.  Its temp fields are only visible inside
+   * the nested structure, but it can see the temp fields of the outer
+   * structure.
+   */
+  fields: D;
+  convert?(n: Struct<D>, tmp: Temp, dvr: DataViewReader): W;
+}
+
+/**
+ * Read an array of items.  If count is given, that many items are read.
+ * If length is given, items are read until that many bytes have been used.
+ * Otherwise, items are read until the end of the input.  Without a count,
+ * every item must use at least one byte, and may not run past the length.
+ */
+export interface RepeatedReader<
+  W,
+  R extends ValueReader<unknown> = ValueReader<unknown>
+> {
+  read: 'array';
+  items: R;
+  count?: number | ((tmp: Temp, dvr: DataViewReader) => number);
+  length?: number | ((tmp: Temp, dvr: DataViewReader) => number);
+
+  /**
+   * The items are not typed here, to keep the types from recursing forever.
+   * Declare the type of the parameter, such as `(n: number[]) => ...`.
+   */
+  convert?(n: unknown[], tmp: Temp, dvr: DataViewReader): W;
+}
+
+/**
+ * Read one of several nested structures, chosen by a discriminator that was
+ * read previously, such as a type field.
+ */
+export interface SwitchReader<
+  W,
+  C extends {[K: string]: StructDefinition} = {[K: string]: StructDefinition}
+> {
+  read: 'switch';
+
+  /** Nested structure for each value of the discriminator. */
+  cases: C;
+
+  /**
+   * Name of the case to use if the discriminator does not match any case.
+   * If not specified, an unknown discriminator throws an error.
+   */
+  default?: keyof C & string;
+
+  /**
+   * If specified, store the name of the case in the result under this name,
+   * so that the result can be used as a discriminated union.
+   */
+  tag?: string;
+
+  /**
+   * Get the discriminator, usually from temp.  It is converted to a string
+   * to look up the case.
+   */
+  on(tmp: Temp, dvr: DataViewReader): string | number;
+  convert?(n: Temp, tmp: Temp, dvr: DataViewReader): W;
+}
+
+/** Readers that produce a value. */
+export type ValueReader<W> = NumberReader<W> | BigIntReader<W> |
+  FixedReader<W> | AddressReader<W> | StringReader<W> |
+  EncodedStringReader<W> | BytesReader<W> | ConstantReader<W> |
+  EnumReader<W> | FlagsReader<W> | StructReader<W> | RepeatedReader<W> |
+  SwitchReader<W>;
+
+export interface Conditional {
+  /**
+   * If specified, the field is only read if this returns true, such as when
+   * a flag is set.  Otherwise, the field is left out of the result.
+   */
+  when?(tmp: Temp, dvr: DataViewReader): boolean;
+}
+
+export type Reader<W> =
+  (ValueReader<W> | PadReader | AlignReader | BitsReader) & Conditional;
 
 export type ReaderType<T> =
   T extends {convert(n: any): infer W} ? W :
     T extends ConstantReader<infer X> ? X :
-      T extends NumberReader<any> ? number :
+      T extends NumberReader<any> | FixedReader<any> ? number :
         T extends BigIntReader<any> ? bigint :
-          T extends StringReader<any> ? string :
-            T extends BytesReader<any> ? Uint8Array :
-              never;
+          T extends StringReader<any> | AddressReader<any> ? string :
+            T extends EncodedStringReader<any> ? string :
+              T extends BytesReader<any> ? Uint8Array :
+                CompoundReaderType<T>;
+
+/** Types produced by readers that build on other readers. */
+export type CompoundReaderType<T> =
+  T extends EnumReader<any, infer N> ? N :
+    T extends FlagsReader<any, infer N> ? Set<N> :
+      T extends StructReader<any, infer D> ? Struct<D> :
+        T extends RepeatedReader<any, infer R> ? ReaderType<R>[] :
+          T extends SwitchReader<any, infer C> ? SwitchType<T, C> :
+            never;
+
+/**
+ * Union of the structures for each case of a switch, each including the
+ * name of its case if there is a tag.
+ */
+export type SwitchType<T, C> = {
+  [K in keyof C]: Pretty<Struct<C[K]> & (
+    T extends {tag: infer G extends string} ?
+      {[P in G]: `${K & (string | number)}`} :
+      unknown
+  )>;
+}[keyof C];
+
+type Converter = (n: unknown, tmp: Temp, dvr: DataViewReader) => unknown;
 
 export interface Temp {
   [K: string]: unknown;
@@ -74,13 +375,76 @@ export const SIZE: unique symbol = Symbol('struct.size');
 export type StructDefinition =
   {[K: string]: Reader<unknown>} & {[SIZE]?: number};
 
+/**
+ * Name of an output field of a struct, if it is conditional or not.
+ * Temp fields, padding, and alignment are not output.
+ */
+type OutputKey<T, K extends keyof T, Cond extends boolean> =
+  K extends `_${string}` ? never :
+    T[K] extends PadReader | AlignReader | BitsReader ? never :
+      T[K] extends {when(...args: any[]): boolean} ?
+        (Cond extends true ? K : never) :
+        (Cond extends true ? never : K);
+
+/** Single bits are booleans, if that can be determined from the types. */
+type BitFieldType<B> = B extends {start: infer S; finish: infer E} ? (
+  number extends E ? number :
+    [S] extends [E] ? ([E] extends [S] ? boolean : number) : number
+) : boolean;
+
+type BitFields<F> = {
+  [K in keyof F as K extends `_${string}` ? never : K]: BitFieldType<F[K]>;
+};
+
+type UnionToIntersection<U> =
+  (U extends unknown ? (u: U) => void : never) extends
+  (i: infer I) => void ? I : never;
+
+/** The sub-fields of all of the "bits" readers in a struct. */
+type StructBits<T> = UnionToIntersection<{
+  [K in keyof T]: T[K] extends BitsReader<infer F> ? (
+    T[K] extends {when(...args: any[]): boolean} ?
+      Partial<BitFields<F>> :
+      BitFields<F>
+  ) : never;
+}[keyof T]>;
+
 export type Struct<T> = Pretty<{
-  [K in keyof T as K extends `_${string}` ? never : K]: ReaderType<T[K]>;
-}>;
+  [K in keyof T as OutputKey<T, K, false>]: ReaderType<T[K]>;
+} & {
+  [K in keyof T as OutputKey<T, K, true>]?: ReaderType<T[K]>;
+} & StructBits<T>>;
 
 const TD = new TextDecoder('utf8', {ignoreBOM: false});
 const TDF = new TextDecoder('utf8', {ignoreBOM: false, fatal: true});
 
+const MIN_SAFE = BigInt(Number.MIN_SAFE_INTEGER);
+const MAX_SAFE = BigInt(Number.MAX_SAFE_INTEGER);
+
+/**
+ * Convert a bigint to a number, if that can be done without losing precision.
+ *
+ * @param n Bigint to convert.
+ * @returns Number if safe, otherwise the original bigint.
+ */
+function toSafe(n: bigint): number | bigint {
+  return ((n >= MIN_SAFE) && (n <= MAX_SAFE)) ? Number(n) : n;
+}
+
+/**
+ * Check the size of an arbitrary-width integer.
+ *
+ * @param bytes Number of bytes.
+ * @returns True if the result will be a bigint.
+ * @throws {RangeError} Invalid size.
+ */
+function intSize(bytes: number): boolean {
+  if (!Number.isInteger(bytes) || (bytes < 1) || (bytes > 8)) {
+    throw new RangeError(`Invalid integer size: ${bytes}`);
+  }
+  return bytes > 6;
+}
+
 /**
  * Treat a Uint8Array as a stream to read typed data from, sequentially.
  * Note that this is not an actual ReadableStream in either the nodejs
@@ -92,6 +456,7 @@ export class DataViewReader {
     littleEndian: false,
     ignoreUTF8errors: false,
     allowTruncation: false,
+    trace: false,
   };
 
   /**
@@ -102,12 +467,20 @@ export class DataViewReader {
   public static readonly BAD_I64 = 1n << 64n;
 
   #allowTruncation = false;
+  #base = 0;
   #bytes: Uint8Array;
+  #checkpoints = new WeakMap<Checkpoint, number>();
+  #checksumErrors: ChecksumError[] = [];
   #dv: DataView;
   #len: number;
   #little: boolean;
   #offset = 0;
+  #path: (string | number)[] = [];
+  #pathPrefix = '';
+  #regions = new WeakSet<ChecksumRegion>();
   #td = TDF;
+  #trace: TraceEntry[] | undefined = undefined;
+  #traceRoot: TraceEntry[] = [];
   #truncated = false;
 
   /**
@@ -133,6 +506,9 @@ export class DataViewReader {
     if (ropts.ignoreUTF8errors) {
       this.#td = TD;
     }
+    if (ropts.trace) {
+      this.#trace = this.#traceRoot;
+    }
   }
 
   public get littleEndian(): boolean {
@@ -207,6 +583,22 @@ export class DataViewReader {
     this.#truncated = true;
   }
 
+  /**
+   * Checksum mismatches found by verifyChecksum() while truncation is
+   * allowed, in the order they were found.
+   */
+  public get checksumErrors(): readonly ChecksumError[] {
+    return this.#checksumErrors;
+  }
+
+  /**
+   * Every read so far, as a tree, if the trace option was set.  Otherwise
+   * empty.  Reads undone by peek() or restore() are removed.
+   */
+  public get trace(): readonly TraceEntry[] {
+    return this.#traceRoot;
+  }
+
   /**
    * Go to a particular offset in the buffer.
    *
@@ -225,10 +617,16 @@ export class DataViewReader {
   /**
    * Reset to the beginning of the input.  Ignores the initial offset, so if
    * you want to restart at the same place, call seek(initialOffset).
-   * Sets the truncation state back to false.
+   * Sets the truncation state back to false, and forgets any checksum
+   * errors.
    */
   public reset(): void {
     this.#truncated = false;
+    this.#checksumErrors = [];
+    if (this.#trace) {
+      this.#traceRoot.length = 0;
+      this.#trace = this.#traceRoot;
+    }
     this.#offset = 0; // Always valid.
   }
 
@@ -248,7 +646,31 @@ export class DataViewReader {
    * @param length Number of bytes to skip.
    */
   public skip(length: number): void {
-    this.#check(length);
+    this.#traced('skip', undefined, () => {
+      this.#check(length);
+    }, false);
+  }
+
+  /**
+   * Skip padding bytes until the offset is a multiple of n bytes from
+   * relativeTo, as in formats such as pcapng, ELF and RIFF.
+   *
+   * @param n Alignment in bytes.
+   * @param relativeTo Offset that alignment is measured from, such as the
+   *   start of the current block.
+   * @param checkZero If true, throw an error if any padding byte is not zero.
+   * @returns Number of padding bytes.
+   * @throws {RangeError} Invalid alignment.
+   */
+  public align(n: number, relativeTo = 0, checkZero = false): number {
+    return this.#traced('align', undefined, () => {
+      if (!Number.isSafeInteger(n) || (n < 1)) {
+        throw new RangeError(`Invalid alignment: ${n}`);
+      }
+      const pad = (n - ((this.#offset - relativeTo) % n)) % n;
+      this.#padding(pad, checkZero);
+      return pad;
+    }, false);
   }
 
   /**
@@ -260,273 +682,929 @@ export class DataViewReader {
    * @returns A subarray of the original buffer, without copying.
    */
   public bytes(length: number): Uint8Array {
-    return this.#bytes.subarray(this.#offset, this.#check(length));
+    return this.#traced('bytes', undefined, () => (
+      this.#bytes.subarray(this.#offset, this.#check(length))
+    ), false);
   }
 
   /**
-   * Get a chunk of the buffer as 8-bit ASCII text.  This is only useful for
-   * ancient protocols such as DNS.  If the top bit is set, you get equivalent
-   * Unicode characters, which should be Latin-1.
-   *
-   * Advances the current read position by length bytes.
+   * Look ahead in the input without consuming it, such as to check a tag
+   * byte or magic number.  Any reads done by fn return the same values as
+   * usual, including the truncation sentinels, but the offset and truncation
+   * state are restored afterward, even if fn throws.  Works when truncation
+   * is allowed, unlike seek().  For example, `r.peek(() => r.u8())`.
    *
-   * @param length Number of bytes.
-   * @returns String.
+   * @param fn Function that reads.
+   * @returns The result of fn.
    */
-  public ascii(length: number): string {
-    return String.fromCharCode(...this.bytes(length));
+  public peek<T>(fn: (r: this) => T): T {
+    const cp = this.checkpoint();
+    try {
+      return fn.call(this, this);
+    } finally {
+      this.restore(cp);
+    }
   }
 
   /**
-   * Read a number of *bytes* as a UTF-8 encoded string.  Use the
-   * ignoreUTF8errors option to avoid throwing exceptions on invalid UTF-8
-   * and get replacement characters instead.  However, by default, Postel
-   * was wrong.
-   *
-   * Advances the current read position by length bytes.
+   * Save the current offset and truncation state, so that they can be
+   * restored later with restore(), for speculative parsing.  Unlike seek(),
+   * this works when truncation is allowed, since the truncation state is
+   * restored along with the offset.
    *
-   * @param length Number of bytes.
-   * @returns Unicode string.
+   * @returns Opaque checkpoint, only valid for this reader.
    */
-  public utf8(length: number): string {
-    return this.#td.decode(this.bytes(length));
+  public checkpoint(): Checkpoint {
+    const cp: Checkpoint = Object.freeze({
+      offset: this.#offset,
+      truncated: this.#truncated,
+    });
+    this.#checkpoints.set(cp, this.#trace?.length ?? 0);
+    return cp;
   }
 
   /**
-   * Get an unsigned byte.  Advances the current read position by 1 byte.
-   * Returns NaN if truncation is allowed and the packet was truncated.
+   * Go back to a checkpoint, restoring both the offset and the truncation
+   * state, and removing any later trace entries.  A checkpoint may be
+   * restored more than once.
    *
-   * @returns Number.
+   * @param cp Checkpoint from checkpoint().
+   * @throws {Error} Checkpoint from a different reader.
    */
-  public u8(): number {
-    const start = this.#offset;
-    if (Number.isNaN(this.#check(1))) {
-      return NaN;
+  public restore(cp: Checkpoint): void {
+    const traceLength = this.#checkpoints.get(cp);
+    if (traceLength === undefined) {
+      throw new Error('Invalid checkpoint for this reader');
+    }
+    this.#offset = cp.offset;
+    this.#truncated = cp.truncated;
+    if (this.#trace && (this.#trace.length > traceLength)) {
+      this.#trace.length = traceLength;
     }
-    return this.#dv.getUint8(start);
   }
 
   /**
-   * Get a two-byte unsigned integer. Advances the current read position by 2
-   * bytes.  Returns NaN if truncation is allowed and the packet was truncated.
+   * Start a region of bytes to be covered by a checksum, at the current
+   * offset.
    *
-   * @param littleEndian Override stream's endianness.
-   * @returns Number.
+   * @returns Region, to pass to endChecksum() and verifyChecksum().
    */
-  public u16(littleEndian = this.#little): number {
-    const start = this.#offset;
-    if (Number.isNaN(this.#check(2))) {
-      return NaN;
-    }
-    return this.#dv.getUint16(start, littleEndian);
+  public beginChecksum(): ChecksumRegion {
+    const region: ChecksumRegion = Object.freeze({start: this.#offset});
+    this.#regions.add(region);
+    return region;
   }
 
   /**
-   * Get a four-byte unsigned integer. Advances the current read position by 4
-   * bytes.  Returns NaN if truncation is allowed and the packet was truncated.
+   * End a checksum region at the current offset, such as when the checksum
+   * is not directly after the bytes it covers.
    *
-   * @param littleEndian Override stream's endianness.
-   * @returns Number.
+   * @param region Region from beginChecksum().
+   * @returns New region, with the end set.
+   * @throws {Error} Region from a different reader.
    */
-
-  public u32(littleEndian = this.#little): number {
-    const start = this.#offset;
-    if (Number.isNaN(this.#check(4))) {
-      return NaN;
-    }
-    return this.#dv.getUint32(start, littleEndian);
+  public endChecksum(region: ChecksumRegion): ChecksumRegion {
+    this.#checkRegion(region);
+    const res: ChecksumRegion = Object.freeze({
+      start: region.start,
+      end: this.#offset,
+    });
+    this.#regions.add(res);
+    return res;
   }
 
   /**
-   * Get an eight-byte unsigned integer. Advances the current read position by 8
-   * bytes.  Returns -1n if truncation is allowed and the packet was truncated.
+   * Check that the bytes in a region match a checksum.  If truncation is
+   * allowed, a mismatch is added to checksumErrors instead of being thrown.
+   * Nothing is checked if the input was truncated.
    *
-   * @param littleEndian Override stream's endianness.
-   * @returns Bigint, since 2**64 > 2**53.
+   * @param region Region from beginChecksum() or endChecksum().
+   * @param algorithm Name of a built-in algorithm, or a custom algorithm.
+   * @param expected Checksum that was read from the input.
+   * @returns True if the checksum matched.
+   * @throws {ChecksumError} Mismatch, if truncation is not allowed.
+   * @throws {TypeError} Unknown algorithm.
+   * @throws {Error} Region from a different reader.
    */
-  public u64(littleEndian = this.#little): bigint {
-    const start = this.#offset;
-    if (Number.isNaN(this.#check(8))) {
-      return -1n;
+  public verifyChecksum(
+    region: ChecksumRegion,
+    algorithm: ChecksumName | ChecksumAlgorithm,
+    expected: number
+  ): boolean {
+    this.#checkRegion(region);
+    const alg = checksumAlgorithm(algorithm);
+    if (this.#truncated) {
+      return false;
+    }
+    const {start, end = this.#offset} = region;
+    const actual = checksum(alg, this.#bytes.subarray(start, end));
+    if (actual === expected) {
+      return true;
+    }
+    const err = this.#error(new ChecksumError(
+      alg.name,
+      {start: this.#base + start, end: this.#base + end},
+      expected,
+      actual
+    ));
+    if (!this.#allowTruncation) {
+      throw err;
     }
-    return this.#dv.getBigUint64(start, littleEndian);
+    this.#checksumErrors.push(err);
+    return false;
   }
 
   /**
-   * Get a signed byte.  Advances the current read position by 1 byte.
-   * Returns NaN if truncation is allowed and the packet was truncated.
+   * Create a new reader restricted to the next length bytes, such as the
+   * value of a TLV record.  Reads past the end of the region are truncated
+   * at the region boundary, and complete() on the new reader detects bytes
+   * left unread in the region.  The new reader has the same options as this
+   * one, starting at offset 0.
    *
-   * @returns Number.
+   * Advances the current read position by length bytes.  If truncation is
+   * allowed and the region runs past the end of the input, this reader is
+   * marked truncated and the new reader covers whatever bytes are available.
+   *
+   * @param length Size of the region in bytes.
+   * @returns New reader.
+   * @throws {TruncationError} Region runs past the end of the input.
    */
-  public i8(): number {
+  public sub(length: number): DataViewReader {
     const start = this.#offset;
-    if (Number.isNaN(this.#check(1))) {
-      return NaN;
+    const end = this.#check(length);
+    const bytes = Number.isNaN(end) ?
+      this.#bytes.subarray(Math.min(start, this.#len), this.#len) :
+      this.#bytes.subarray(start, end);
+    const r = new DataViewReader(bytes, {
+      littleEndian: this.#little,
+      ignoreUTF8errors: !this.#td.fatal,
+      allowTruncation: this.#allowTruncation,
+      trace: Boolean(this.#trace),
+    });
+    r.#base = this.#base + start;
+    r.#pathPrefix = this.#pathString();
+    if (this.#trace) {
+      this.#trace.push({
+        read: 'sub',
+        start: r.#base,
+        length: bytes.length,
+        bytes,
+        value: undefined,
+        children: r.#traceRoot,
+      });
     }
-    return this.#dv.getInt8(start);
+    return r;
   }
 
   /**
-   * Get a two-byte signed integer. Advances the current read position by 2
-   * bytes.  Returns NaN if truncation is allowed and the packet was truncated.
+   * Read many numbers at once into a typed array, such as audio samples.
+   * This is much faster than reading them one at a time.  If the bytes are
+   * aligned for the element size and are in host byte order, the result
+   * shares memory with the original buffer, without copying.  Otherwise, the
+   * bytes are copied and swapped as needed.  Returns an empty array if
+   * truncation is allowed and the packet was truncated.
    *
+   * Advances the current read position by count times the element size.
+   *
+   * @param kind Read method for each element, such as "i16" or "f32".
+   * @param count Number of elements.
    * @param littleEndian Override stream's endianness.
-   * @returns Number.
+   * @returns Typed array.
+   * @throws {TypeError} Invalid kind.
    */
-  public i16(littleEndian = this.#little): number {
-    const start = this.#offset;
-    if (Number.isNaN(this.#check(2))) {
-      return NaN;
-    }
-    return this.#dv.getInt16(start, littleEndian);
+  public typedArray<K extends TypedArrayKind>(
+    kind: K,
+    count: number,
+    littleEndian = this.#little
+  ): TypedArrays[K] {
+    return this.#traced('typedArray', undefined, () => {
+      const size = typedArrayConstructor(kind).BYTES_PER_ELEMENT;
+      return toTypedArray(kind, this.bytes(count * size), littleEndian);
+    }, false);
   }
 
   /**
-   * Get a four-byte signed integer. Advances the current read position by 4
-   * bytes.  Returns NaN if truncation is allowed and the packet was truncated.
+   * Get a chunk of the buffer as 8-bit ASCII text.  This is only useful for
+   * ancient protocols such as DNS.  If the top bit is set, you get equivalent
+   * Unicode characters, which should be Latin-1.
    *
-   * @param littleEndian Override stream's endianness.
-   * @returns Number.
+   * Advances the current read position by length bytes.
+   *
+   * @param length Number of bytes.
+   * @returns String.
    */
-  public i32(littleEndian = this.#little): number {
-    const start = this.#offset;
-    if (Number.isNaN(this.#check(4))) {
-      return NaN;
-    }
-    return this.#dv.getInt32(start, littleEndian);
+  public ascii(length: number): string {
+    return this.#traced('ascii', undefined, () => (
+      String.fromCharCode(...this.bytes(length))
+    ), false);
   }
 
   /**
-   * Get a eight-byte signed integer. Advances the current read position by 8
-   * bytes.  Returns DataViewReader.BAD_I64 if truncation is allowed and the
-   * packet was truncated.
+   * Read an IPv4 address as a dotted quad, such as "192.0.2.1".  Returns an
+   * empty string if truncation is allowed and the packet was truncated.
    *
-   * @param littleEndian Override stream's endianness.
-   * @returns Bigint.
+   * Advances the current read position by 4 bytes.
+   *
+   * @returns Address.
    */
-
-  public i64(littleEndian = this.#little): bigint {
-    const start = this.#offset;
-    if (Number.isNaN(this.#check(8))) {
-      return DataViewReader.BAD_I64;
-    }
-    return this.#dv.getBigInt64(start, littleEndian);
+  public ipv4(): string {
+    return this.#traced(
+      'ipv4', undefined, () => this.#address('ipv4', ipv4ToString), false
+    );
   }
 
   /**
-   * Get a half-precision floating point number.  On older JS runtimes, uses a
-   * local implementation of f16.  Returns NaN if truncation is allowed and
-   * the packet was truncated.
+   * Read an IPv6 address in the RFC 5952 format, such as "2001:db8::1".
+   * Returns an empty string if truncation is allowed and the packet was
+   * truncated.
    *
-   * Advances the current read position by 2 bytes.
+   * Advances the current read position by 16 bytes.
    *
-   * @param littleEndian Override stream's endianness.
-   * @returns Number.
+   * @returns Address.
    */
-  public f16(littleEndian = this.#little): number {
-    const start = this.#offset;
-    if (Number.isNaN(this.#check(2))) {
-      // This is not ideal for floats, since NaN is a valid thing to have
-      // read.
-      return NaN;
-    }
-    return parseHalf(this.#dv, start, littleEndian);
+  public ipv6(): string {
+    return this.#traced(
+      'ipv6', undefined, () => this.#address('ipv6', ipv6ToString), false
+    );
   }
 
   /**
-   * Get a single-precision floating point number.  Returns NaN if truncation
-   * is allowed and the packet was truncated.
+   * Read a MAC address as lowercase colon-separated hex, such as
+   * "00:00:5e:00:53:01".  Returns an empty string if truncation is allowed
+   * and the packet was truncated.
    *
-   * Advances the current read position by 4 bytes.
+   * Advances the current read position by 6 bytes.
    *
-   * @param littleEndian Override stream's endianness.
-   * @returns Number.
+   * @returns Address.
    */
-  public f32(littleEndian = this.#little): number {
-    const start = this.#offset;
-    if (Number.isNaN(this.#check(4))) {
-      return NaN;
-    }
-    return this.#dv.getFloat32(start, littleEndian);
+  public mac(): string {
+    return this.#traced(
+      'mac', undefined, () => this.#address('mac', macToString), false
+    );
   }
 
   /**
-   * Get a double-precision floating point number.  Returns NaN if truncation
-   * is allowed and the packet was truncated.
+   * Read a UUID in the canonical lowercase hyphenated form.  Returns an
+   * empty string if truncation is allowed and the packet was truncated.
    *
-   * Advances the current read position by 8 bytes.
+   * Advances the current read position by 16 bytes.
    *
-   * @param littleEndian Override stream's endianness.
-   * @returns Number.
+   * @param layout Byte layout, "microsoft" for Windows GUIDs.
+   * @returns UUID, such as "f81d4fae-7dec-11d0-a765-00a0c91e6bf6".
+   * @throws {TypeError} Invalid layout.
    */
-  public f64(littleEndian = this.#little): number {
-    const start = this.#offset;
-    if (Number.isNaN(this.#check(4))) {
-      return NaN;
-    }
-    return this.#dv.getFloat64(start, littleEndian);
+  public uuid(layout: UuidLayout = 'rfc'): string {
+    return this.#traced('uuid', undefined, () => {
+      checkUuidLayout(layout);
+      const bytes = this.bytes(UUID_SIZE);
+      return this.#truncated ? '' : uuidToString(bytes, layout);
+    }, false);
   }
 
   /**
-   * Convenience function to repeat reading a given number of times.
-   *
-   * @param num Number of times to call fn.
+   * Read a number of *bytes* as a UTF-8 encoded string.  Use the
+   * ignoreUTF8errors option to avoid throwing exceptions on invalid UTF-8
+   * and get replacement characters instead.  However, by default, Postel
+   * was wrong.
+   *
+   * Advances the current read position by length bytes.
+   *
+   * @param length Number of bytes.
+   * @returns Unicode string.
+   */
+  public utf8(length: number): string {
+    return this.#traced(
+      'utf8', undefined, () => this.#text(this.bytes(length)), false
+    );
+  }
+
+  /**
+   * Read an unsigned integer length, followed by that many bytes.  Returns an
+   * empty array if truncation is allowed and the packet was truncated.
+   *
+   * Advances the current read position past the length and the bytes.
+   *
+   * @param prefix Type of the length.
+   * @param littleEndian Override stream's endianness for the length.
+   * @returns A subarray of the original buffer, without copying.
+   */
+  public prefixedBytes(
+    prefix: LengthPrefix = 'u8',
+    littleEndian = this.#little
+  ): Uint8Array {
+    return this.#traced('prefixedBytes', undefined, () => {
+      const len = this[prefix](littleEndian);
+      return this.bytes(Number.isNaN(len) ? 0 : len);
+    }, false);
+  }
+
+  /**
+   * Read an unsigned integer length, followed by that many bytes as 8-bit
+   * ASCII text.
+   *
+   * Advances the current read position past the length and the bytes.
+   *
+   * @param prefix Type of the length.
+   * @param littleEndian Override stream's endianness for the length.
+   * @returns String.
+   */
+  public prefixedAscii(
+    prefix: LengthPrefix = 'u8',
+    littleEndian = this.#little
+  ): string {
+    return this.#traced('prefixedAscii', undefined, () => (
+      String.fromCharCode(...this.prefixedBytes(prefix, littleEndian))
+    ), false);
+  }
+
+  /**
+   * Read an unsigned integer length, followed by that many bytes as a UTF-8
+   * encoded string.
+   *
+   * Advances the current read position past the length and the bytes.
+   *
+   * @param prefix Type of the length.
+   * @param littleEndian Override stream's endianness for the length.
+   * @returns Unicode string.
+   */
+  public prefixedUtf8(
+    prefix: LengthPrefix = 'u8',
+    littleEndian = this.#little
+  ): string {
+    return this.#traced('prefixedUtf8', undefined, () => (
+      this.#text(this.prefixedBytes(prefix, littleEndian))
+    ), false);
+  }
+
+  /**
+   * Read a number of *bytes* as a UTF-16 encoded string, as used in Windows
+   * file formats.  If the bytes start with a byte order mark, it determines
+   * the endianness and is removed.  Use the ignoreUTF8errors option to get
+   * replacement characters instead of exceptions for invalid input.
+   *
+   * Advances the current read position by length bytes.
+   *
+   * @param length Number of bytes.
+   * @param littleEndian Override stream's endianness, if there is no byte
+   *   order mark.
+   * @returns Unicode string.
+   * @throws {UTF8Error} Invalid text.
+   */
+  public utf16(length: number, littleEndian = this.#little): string {
+    return this.#traced('utf16', undefined, () => {
+      const bytes = this.bytes(length);
+      try {
+        return decodeUtf16(
+          bytes,
+          littleEndian,
+          this.#td.fatal,
+          this.#base + this.#offset - bytes.length
+        );
+      } catch (e) {
+        throw this.#error(e);
+      }
+    }, false);
+  }
+
+  /**
+   * Read a number of *bytes* as a string in the given encoding.  Use the
+   * ignoreUTF8errors option to get replacement characters instead of
+   * exceptions for invalid input.
+   *
+   * Advances the current read position by length bytes.
+   *
+   * @param length Number of bytes.
+   * @param encoding Any WHATWG encoding label, such as "windows-1252".
+   * @returns Unicode string.
+   * @throws {RangeError} Unknown encoding.
+   */
+  public string(length: number, encoding: string): string {
+    return this.#traced('string', undefined, () => {
+      const td = decoder(encoding, this.#td.fatal);
+      return this.#text(this.bytes(length), td);
+    }, false);
+  }
+
+  /**
+   * Read a UTF-8 string that ends with a terminator byte, such as the
+   * NUL-terminated strings in C structs.  The terminator is not included in
+   * the result.  If the input ends before the terminator is found, the read is
+   * treated as truncated, and returns an empty string if truncation is
+   * allowed.
+   *
+   * Advances the current read position past the string, and past the
+   * terminator if it is consumed.
+   *
+   * @param opts Options.
+   * @returns Unicode string.
+   * @throws {RangeError} Invalid maxLength or terminator.
+   * @throws {TruncationError} Terminator not found.
+   */
+  public cstring(opts: CStringOptions = {}): string {
+    return this.#traced('cstring', undefined, () => {
+      const {maxLength = Infinity, terminator = 0, consume = true} = opts;
+      if ((opts.maxLength !== undefined) &&
+          (!Number.isSafeInteger(maxLength) || (maxLength < 0))) {
+        throw new RangeError(`Invalid read size: ${maxLength}`);
+      }
+      if (!Number.isInteger(terminator) ||
+          (terminator < 0) ||
+          (terminator > 0xff)) {
+        throw new RangeError(`Invalid terminator: ${terminator}`);
+      }
+      if (this.#truncated) {
+        return '';
+      }
+
+      const start = this.#offset;
+      const end = Math.min(this.#len, start + maxLength);
+      const found = this.#bytes.subarray(start, end).indexOf(terminator);
+      if (found === -1) {
+        if (end === start + maxLength) {
+          return this.utf8(maxLength);
+        }
+        // Ran off the end looking for the terminator.
+        this.#check(end - start + 1);
+        return '';
+      }
+      const str = this.utf8(found);
+      if (consume) {
+        this.#check(1);
+      }
+      return str;
+    }, false);
+  }
+
+  /**
+   * Get an unsigned byte.  Advances the current read position by 1 byte.
+   * Returns NaN if truncation is allowed and the packet was truncated.
+   *
+   * @returns Number.
+   */
+  public u8(): number {
+    return this.#traced('u8', undefined, () => {
+      const start = this.#offset;
+      if (Number.isNaN(this.#check(1))) {
+        return NaN;
+      }
+      return this.#dv.getUint8(start);
+    }, false);
+  }
+
+  /**
+   * Get a two-byte unsigned integer. Advances the current read position by 2
+   * bytes.  Returns NaN if truncation is allowed and the packet was truncated.
+   *
+   * @param littleEndian Override stream's endianness.
+   * @returns Number.
+   */
+  public u16(littleEndian = this.#little): number {
+    return this.#traced('u16', undefined, () => {
+      const start = this.#offset;
+      if (Number.isNaN(this.#check(2))) {
+        return NaN;
+      }
+      return this.#dv.getUint16(start, littleEndian);
+    }, false);
+  }
+
+  /**
+   * Get a four-byte unsigned integer. Advances the current read position by 4
+   * bytes.  Returns NaN if truncation is allowed and the packet was truncated.
+   *
+   * @param littleEndian Override stream's endianness.
+   * @returns Number.
+   */
+
+  public u32(littleEndian = this.#little): number {
+    return this.#traced('u32', undefined, () => {
+      const start = this.#offset;
+      if (Number.isNaN(this.#check(4))) {
+        return NaN;
+      }
+      return this.#dv.getUint32(start, littleEndian);
+    }, false);
+  }
+
+  /**
+   * Get an eight-byte unsigned integer. Advances the current read position by 8
+   * bytes.  Returns -1n if truncation is allowed and the packet was truncated.
+   *
+   * @param littleEndian Override stream's endianness.
+   * @returns Bigint, since 2**64 > 2**53.
+   */
+  public u64(littleEndian = this.#little): bigint {
+    return this.#traced('u64', undefined, () => {
+      const start = this.#offset;
+      if (Number.isNaN(this.#check(8))) {
+        return -1n;
+      }
+      return this.#dv.getBigUint64(start, littleEndian);
+    }, false);
+  }
+
+  /**
+   * Get a signed byte.  Advances the current read position by 1 byte.
+   * Returns NaN if truncation is allowed and the packet was truncated.
+   *
+   * @returns Number.
+   */
+  public i8(): number {
+    return this.#traced('i8', undefined, () => {
+      const start = this.#offset;
+      if (Number.isNaN(this.#check(1))) {
+        return NaN;
+      }
+      return this.#dv.getInt8(start);
+    }, false);
+  }
+
+  /**
+   * Get a two-byte signed integer. Advances the current read position by 2
+   * bytes.  Returns NaN if truncation is allowed and the packet was truncated.
+   *
+   * @param littleEndian Override stream's endianness.
+   * @returns Number.
+   */
+  public i16(littleEndian = this.#little): number {
+    return this.#traced('i16', undefined, () => {
+      const start = this.#offset;
+      if (Number.isNaN(this.#check(2))) {
+        return NaN;
+      }
+      return this.#dv.getInt16(start, littleEndian);
+    }, false);
+  }
+
+  /**
+   * Get a four-byte signed integer. Advances the current read position by 4
+   * bytes.  Returns NaN if truncation is allowed and the packet was truncated.
+   *
+   * @param littleEndian Override stream's endianness.
+   * @returns Number.
+   */
+  public i32(littleEndian = this.#little): number {
+    return this.#traced('i32', undefined, () => {
+      const start = this.#offset;
+      if (Number.isNaN(this.#check(4))) {
+        return NaN;
+      }
+      return this.#dv.getInt32(start, littleEndian);
+    }, false);
+  }
+
+  /**
+   * Get a eight-byte signed integer. Advances the current read position by 8
+   * bytes.  Returns DataViewReader.BAD_I64 if truncation is allowed and the
+   * packet was truncated.
+   *
+   * @param littleEndian Override stream's endianness.
+   * @returns Bigint.
+   */
+
+  public i64(littleEndian = this.#little): bigint {
+    return this.#traced('i64', undefined, () => {
+      const start = this.#offset;
+      if (Number.isNaN(this.#check(8))) {
+        return DataViewReader.BAD_I64;
+      }
+      return this.#dv.getBigInt64(start, littleEndian);
+    }, false);
+  }
+
+  /**
+   * Get an unsigned integer of any size from 1 to 8 bytes, such as the
+   * 3-byte lengths in TLS and HTTP/2.  Sizes of 7 and 8 bytes may not fit in
+   * a number, so return a bigint.  Returns NaN (or -1n for bigints) if
+   * truncation is allowed and the packet was truncated.
+   *
+   * Advances the current read position by the given number of bytes.
+   *
+   * @param bytes Number of bytes, from 1-8.
+   * @param littleEndian Override stream's endianness.
+   * @returns Number, or bigint for 7 or 8 bytes.
+   * @throws {RangeError} Invalid number of bytes.
+   */
+  public uint(bytes: 1 | 2 | 3 | 4 | 5 | 6, littleEndian?: boolean): number;
+  public uint(bytes: 7 | 8, littleEndian?: boolean): bigint;
+  public uint(bytes: number, littleEndian?: boolean): number | bigint;
+  public uint(bytes: number, littleEndian = this.#little): number | bigint {
+    return this.#traced('uint', undefined, () => {
+      const start = this.#offset;
+      const big = intSize(bytes);
+      if (Number.isNaN(this.#check(bytes))) {
+        return big ? -1n : NaN;
+      }
+      if (big) {
+        let res = 0n;
+        for (let i = 0; i < bytes; i++) {
+          res = (res << 8n) |
+            BigInt(this.#bytes[start + (littleEndian ? bytes - i - 1 : i)]);
+        }
+        return res;
+      }
+      let res = 0;
+      for (let i = 0; i < bytes; i++) {
+        res = (res * 0x100) +
+          this.#bytes[start + (littleEndian ? bytes - i - 1 : i)];
+      }
+      return res;
+    }, false);
+  }
+
+  /**
+   * Get a two's-complement signed integer of any size from 1 to 8 bytes.
+   * Sizes of 7 and 8 bytes may not fit in a number, so return a bigint.
+   * Returns NaN (or DataViewReader.BAD_I64 for bigints) if truncation is
+   * allowed and the packet was truncated.
+   *
+   * Advances the current read position by the given number of bytes.
+   *
+   * @param bytes Number of bytes, from 1-8.
+   * @param littleEndian Override stream's endianness.
+   * @returns Number, or bigint for 7 or 8 bytes.
+   * @throws {RangeError} Invalid number of bytes.
+   */
+  public int(bytes: 1 | 2 | 3 | 4 | 5 | 6, littleEndian?: boolean): number;
+  public int(bytes: 7 | 8, littleEndian?: boolean): bigint;
+  public int(bytes: number, littleEndian?: boolean): number | bigint;
+  public int(bytes: number, littleEndian = this.#little): number | bigint {
+    return this.#traced('int', undefined, () => {
+      const u = this.uint(bytes, littleEndian);
+      if (typeof u === 'bigint') {
+        return (u < 0n) ? DataViewReader.BAD_I64 : BigInt.asIntN(bytes * 8, u);
+      }
+      const top = 2 ** ((bytes * 8) - 1);
+      return (u >= top) ? u - (top * 2) : u;
+    }, false);
+  }
+
+  /**
+   * Get a half-precision floating point number.  On older JS runtimes, uses a
+   * local implementation of f16.  Returns NaN if truncation is allowed and
+   * the packet was truncated.
+   *
+   * Advances the current read position by 2 bytes.
+   *
+   * @param littleEndian Override stream's endianness.
+   * @returns Number.
+   */
+  public f16(littleEndian = this.#little): number {
+    return this.#traced('f16', undefined, () => {
+      const start = this.#offset;
+      if (Number.isNaN(this.#check(2))) {
+        // This is not ideal for floats, since NaN is a valid thing to have
+        // read.
+        return NaN;
+      }
+      return parseHalf(this.#dv, start, littleEndian);
+    }, false);
+  }
+
+  /**
+   * Get a single-precision floating point number.  Returns NaN if truncation
+   * is allowed and the packet was truncated.
+   *
+   * Advances the current read position by 4 bytes.
+   *
+   * @param littleEndian Override stream's endianness.
+   * @returns Number.
+   */
+  public f32(littleEndian = this.#little): number {
+    return this.#traced('f32', undefined, () => {
+      const start = this.#offset;
+      if (Number.isNaN(this.#check(4))) {
+        return NaN;
+      }
+      return this.#dv.getFloat32(start, littleEndian);
+    }, false);
+  }
+
+  /**
+   * Get a double-precision floating point number.  Returns NaN if truncation
+   * is allowed and the packet was truncated.
+   *
+   * Advances the current read position by 8 bytes.
+   *
+   * @param littleEndian Override stream's endianness.
+   * @returns Number.
+   */
+  public f64(littleEndian = this.#little): number {
+    return this.#traced('f64', undefined, () => {
+      const start = this.#offset;
+      if (Number.isNaN(this.#check(4))) {
+        return NaN;
+      }
+      return this.#dv.getFloat64(start, littleEndian);
+    }, false);
+  }
+
+  /**
+   * Get a fixed-point number, such as an OpenType F2DOT14 or a Q15 audio
+   * sample.  Returns NaN if truncation is allowed and the packet was
+   * truncated.
+   *
+   * Advances the current read position by format.bits / 8 bytes.
+   *
+   * @param format Layout of the number.
+   * @param littleEndian Override stream's endianness.
+   * @returns Number.  More than 53 significant bits may lose precision.
+   * @throws {RangeError} Invalid format.
+   */
+  public fixed(format: FixedPoint, littleEndian = this.#little): number {
+    return this.#traced('fixed', undefined, () => {
+      const raw = this.uint(fixedBytes(format), littleEndian);
+      return this.#truncated ? NaN : fromFixed(raw, format);
+    }, false);
+  }
+
+  /**
+   * Get a timestamp, such as a Windows FILETIME or an NTP timestamp.
+   * Precision finer than a millisecond is lost; use timestampNs() if that
+   * matters.  Returns an invalid Date if truncation is allowed and the
+   * packet was truncated.
+   *
+   * Advances the current read position by the size of the format.
+   *
+   * @param format Time format.
+   * @param littleEndian Override stream's endianness.
+   * @returns Date.
+   * @throws {TypeError} Invalid format.
+   * @throws {ValidationError} Invalid DOS timestamp.
+   */
+  public timestamp(
+    format: TimestampFormat,
+    littleEndian = this.#little
+  ): Date {
+    return this.#traced('timestamp', undefined, () => {
+      const ns = this.timestampNs(format, littleEndian);
+      return this.#truncated ? new Date(NaN) : nsToDate(ns);
+    }, false);
+  }
+
+  /**
+   * Get a timestamp without losing precision.  Returns
+   * DataViewReader.BAD_I64 if truncation is allowed and the packet was
+   * truncated.
+   *
+   * Advances the current read position by the size of the format.
+   *
+   * @param format Time format.
+   * @param littleEndian Override stream's endianness.
+   * @returns Nanoseconds since 1970-01-01T00:00:00Z.
+   * @throws {TypeError} Invalid format.
+   * @throws {ValidationError} Invalid DOS timestamp.
+   */
+  public timestampNs(
+    format: TimestampFormat,
+    littleEndian = this.#little
+  ): bigint {
+    return this.#traced('timestampNs', undefined, () => {
+      const start = this.#offset;
+      const size = timestampSize(format);
+      if (Number.isNaN(this.#check(size))) {
+        return DataViewReader.BAD_I64;
+      }
+      try {
+        return decodeTimestamp(
+          format, this.#bytes.subarray(start, start + size), littleEndian
+        );
+      } catch (e) {
+        throw this.#error(e);
+      }
+    }, false);
+  }
+
+  /**
+   * Get an unsigned LEB128-encoded integer, as used by protobuf, WebAssembly,
+   * and DWARF.  Returns NaN if truncation is allowed and the packet was
+   * truncated.
+   *
+   * Advances the current read position by the size of the encoding, which is
+   * at most 10 bytes.
+   *
+   * @returns Number if the result is a safe integer, otherwise bigint.
+   * @throws {VarintError} Overlong encoding, or more than 64 bits.
+   */
+  public uleb128(): number | bigint {
+    return this.#traced('uleb128', undefined, () => {
+      const n = this.#leb128(false);
+      return (n === undefined) ? NaN : toSafe(n);
+    }, false);
+  }
+
+  /**
+   * Get a signed LEB128-encoded integer, as used by WebAssembly and DWARF.
+   * Returns NaN if truncation is allowed and the packet was truncated.
+   *
+   * Advances the current read position by the size of the encoding, which is
+   * at most 10 bytes.
+   *
+   * @returns Number if the result is a safe integer, otherwise bigint.
+   * @throws {VarintError} Overlong encoding, or more than 64 bits.
+   */
+  public sleb128(): number | bigint {
+    return this.#traced('sleb128', undefined, () => {
+      const n = this.#leb128(true);
+      return (n === undefined) ? NaN : toSafe(n);
+    }, false);
+  }
+
+  /**
+   * Get a zigzag-encoded signed integer, stored as unsigned LEB128, as used
+   * by protobuf's sint32 and sint64 types.  Returns NaN if truncation is
+   * allowed and the packet was truncated.
+   *
+   * Advances the current read position by the size of the encoding, which is
+   * at most 10 bytes.
+   *
+   * @returns Number if the result is a safe integer, otherwise bigint.
+   * @throws {VarintError} Overlong encoding, or more than 64 bits.
+   */
+  public zigzag(): number | bigint {
+    return this.#traced('zigzag', undefined, () => {
+      const n = this.#leb128(false);
+      return (n === undefined) ? NaN : toSafe((n >> 1n) ^ -(n & 1n));
+    }, false);
+  }
+
+  /**
+   * Get a QUIC variable-length integer (RFC 9000, section 16), as used by
+   * QUIC, HTTP/3, and WebTransport.  The top two bits of the first byte give
+   * the size of the encoding.  Always big-endian.  Returns NaN if truncation
+   * is allowed and the packet was truncated.
+   *
+   * Advances the current read position by 1, 2, 4, or 8 bytes.
+   *
+   * @returns Number if the result is a safe integer, otherwise bigint.
+   */
+  public quicVarint(): number | bigint {
+    return this.#traced('quicVarint', undefined, () => {
+      const start = this.#offset;
+      const first = this.u8();
+      if (Number.isNaN(first)) {
+        return NaN;
+      }
+      const size = 1 << (first >> 6);
+      if (Number.isNaN(this.#check(size - 1))) {
+        return NaN;
+      }
+      switch (size) {
+        case 1:
+          return first;
+        case 2:
+          return this.#dv.getUint16(start) & 0x3fff;
+        case 4:
+          return this.#dv.getUint32(start) & 0x3fffffff;
+        default:
+          return toSafe(this.#dv.getBigUint64(start) & 0x3fffffffffffffffn);
+      }
+    }, false);
+  }
+
+  /**
+   * Convenience function to repeat reading a given number of times.
+   *
+   * @param num Number of times to call fn.
    * @param fn Function that reads.
    * @returns Array of results.
    */
   public times<T extends FieldType>(num: number, fn: (n: number) => T): T[] {
-    const res: T[] = [];
-    for (let i = 0; !this.#truncated && (i < num); i++) {
-      res[i] = fn.call(this, i);
-    }
-    return res;
+    return this.#traced('times', undefined, () => {
+      const res: T[] = [];
+      for (let i = 0; !this.#truncated && (i < num); i++) {
+        res[i] = this.#named('', i, () => fn.call(this, i));
+      }
+      return res;
+    });
   }
 
+  /**
+   * Read a structure described by a set of field readers, in order.  Fields
+   * whose names start with "_" are stored in temp rather than in the result,
+   * so that they can be used to compute the sizes of later fields.
+   *
+   * @param description Field descriptions, in the order you want them read.
+   * @returns Object with the non-temp fields.
+   */
   public struct<T extends StructDefinition>(description: T): Struct<T> {
-    const temp: Temp = {};
-    const res: Partial<Struct<T>> = {};
-    // eslint-disable-next-line guard-for-in
-    for (const k in description) {
-      const v = description[k];
-      let val: any = undefined;
-      switch (v.read) {
-        case 'u8':
-        case 'u16':
-        case 'u32':
-        case 'u64':
-        case 'i8':
-        case 'i16':
-        case 'i32':
-        case 'i64':
-        case 'f16':
-        case 'f32':
-        case 'f64':
-          val = this[v.read](v.littleEndian);
-          break;
-        case 'ascii':
-        case 'utf8':
-          val = this[v.read](v.length(temp, this));
-          if (v.convert) {
-            val = v.convert(val, temp, this);
-          }
-          break;
-        case 'bytes':
-          val = this[v.read](v.length(temp, this));
-          if (v.convert) {
-            val = v.convert(val, temp, this);
-          }
-          break;
-        case 'constant':
-          val = v.value(temp, this);
-          break;
-      }
-      if (k.startsWith('_')) {
-        temp[k.slice(1)] = val;
-      } else {
-        res[k as string as keyof Struct<T>] = val;
-      }
-    }
-    return res as Struct<T>;
+    return this.#traced(
+      'struct', undefined, () => this.#struct(description, {}) as Struct<T>
+    );
+  }
+
+  /**
+   * Read a named field, such as for a Packet.  If a ReadError is thrown, the
+   * field's path and kind are added to it.  When tracing, the reads done by
+   * fn are grouped under one entry for the field.
+   *
+   * @param name Field name, or index in an array.
+   * @param kind Kind of read, such as "u16", or empty if not known.
+   * @param fn Function that reads the field.
+   * @returns The result of fn.
+   */
+  public field<T>(name: string | number, kind: string, fn: () => T): T {
+    return this.#named(kind, name, fn);
   }
 
   /**
@@ -537,13 +1615,17 @@ export class DataViewReader {
    */
   public complete(): void {
     if (!this.#truncated && (this.#offset !== this.#len)) {
-      throw new ExtraBytesError(this.#offset, this.#len);
+      throw this.#error(new ExtraBytesError(
+        this.#base + this.#offset, this.#base + this.#len
+      ));
     }
   }
 
   /**
    * When outputting with `console.log('%O', this)` or at the node REPL,
-   * see the current chunk structure.
+   * see a hexdump of the input.  With colors, the byte at the current offset
+   * and the unread bytes are highlighted.  If there are more than
+   * maxArrayLength bytes, the dump starts a line before the current offset.
    *
    * @param depth Current depth.
    * @param options Options for writing, generated by util.inpect.
@@ -559,7 +1641,506 @@ export class DataViewReader {
       return options.stylize('[DataViewReader]', 'special');
     }
 
-    return `${options.stylize('DataViewReader', 'special')} { length: ${inspect(this.#len, options)}, offset: ${inspect(this.#offset, options)}, unused: ${options.stylize(u8toHex(this.unused()), 'string')}}`;
+    const header = `${options.stylize('DataViewReader', 'special')} { length: ${inspect(this.#len, options)}, offset: ${inspect(this.#offset, options)} }`;
+    const maxBytes = options.maxArrayLength ?? Infinity;
+    let from = 0;
+    if (this.#len > maxBytes) {
+      from = Math.max(0, (Math.floor(this.#offset / 16) - 1) * 16);
+    }
+    const dump = hexdump(this.#bytes.subarray(from), {
+      offset: this.#base + from,
+      maxBytes,
+      mark: this.#offset - from,
+      stylize: options.colors ? options.stylize : undefined,
+    });
+    return dump ? `${header}\n${dump.replace(/^/gm, '  ')}` : header;
+  }
+
+  /**
+   * Read the fields of a structure.
+   *
+   * @param description Field descriptions.
+   * @param temp Temp fields that are visible to the structure.
+   * @returns Object with the non-temp fields.
+   */
+  #struct(description: StructDefinition, temp: Temp): Temp {
+    const start = this.#offset;
+    const res: Temp = {};
+    // eslint-disable-next-line guard-for-in
+    for (const k in description) {
+      const v = description[k];
+      if (v.when && !v.when(temp, this)) {
+        continue;
+      }
+      if (v.read === 'pad') {
+        this.#named(v.read, k, () => this.#padding(
+          (typeof v.length === 'number') ? v.length : v.length(temp, this),
+          v.zero
+        ));
+        continue;
+      }
+      if (v.read === 'align') {
+        this.#named(v.read, k, () => this.align(v.alignment, start, v.zero));
+        continue;
+      }
+      if (v.read === 'bits') {
+        this.#named(v.read, k, () => this.#bitFields(v, temp, res));
+        continue;
+      }
+      const val = this.#named(v.read, k, () => this.#field(v, temp));
+      if (k.startsWith('_')) {
+        temp[k.slice(1)] = val;
+      } else {
+        res[k] = val;
+      }
+    }
+    return res;
+  }
+
+  /**
+   * Read a single field of a structure, and convert it if needed.
+   *
+   * @param v Field description.
+   * @param temp Temp fields that are visible to the field.
+   * @returns Field value.
+   */
+  #field(v: ValueReader<unknown>, temp: Temp): unknown {
+    let val: unknown = undefined;
+    switch (v.read) {
+      case 'u8':
+      case 'u16':
+      case 'u32':
+      case 'u64':
+      case 'i8':
+      case 'i16':
+      case 'i32':
+      case 'i64':
+      case 'f16':
+      case 'f32':
+      case 'f64':
+        val = this[v.read](v.littleEndian);
+        break;
+      case 'fixed':
+        val = this.fixed(v, v.littleEndian);
+        break;
+      case 'u24':
+      case 'u40':
+      case 'u48':
+      case 'u56':
+        val = this.uint(Number(v.read.slice(1)) / 8, v.littleEndian);
+        break;
+      case 'i24':
+      case 'i40':
+      case 'i48':
+      case 'i56':
+        val = this.int(Number(v.read.slice(1)) / 8, v.littleEndian);
+        break;
+      case 'ascii':
+      case 'utf8':
+      case 'bytes':
+        val = this[v.read](v.length(temp, this));
+        break;
+      case 'ipv4':
+      case 'ipv6':
+      case 'mac':
+        val = this[v.read]();
+        break;
+      case 'utf16':
+        val = this.utf16(v.length(temp, this), v.littleEndian);
+        break;
+      case 'string':
+        val = this.string(v.length(temp, this), v.encoding);
+        break;
+      case 'constant':
+        return v.value(temp, this);
+      case 'enum': {
+        const n = this[v.from](v.littleEndian);
+        val = this.#truncated ? n : v.map.lookup(n);
+        break;
+      }
+      case 'flags': {
+        const n = this[v.from](v.littleEndian);
+        val = this.#truncated ? n : v.map.lookup(n);
+        break;
+      }
+      case 'struct':
+        val = this.#struct(v.fields, Object.create(temp) as Temp);
+        break;
+      case 'array':
+        val = this.#array(v, temp);
+        break;
+      case 'switch':
+        val = this.#switch(v, temp);
+        break;
+    }
+    const {convert} = v as {convert?: Converter};
+    if (convert) {
+      val = convert(val, temp, this);
+    }
+    return val;
+  }
+
+  /**
+   * Read a network address.
+   *
+   * @param kind Kind of address.
+   * @param format Convert the bytes to a string.
+   * @returns Formatted address, or empty string if truncated.
+   */
+  #address(
+    kind: AddressKind,
+    format: (bytes: Uint8Array) => string
+  ): string {
+    const bytes = this.bytes(ADDRESS_SIZE[kind]);
+    return this.#truncated ? '' : format(bytes);
+  }
+
+  /**
+   * Read the items of an array field.
+   *
+   * @param v Field description.
+   * @param temp Temp fields that are visible to the items.
+   * @returns Array of items.
+   * @throws {ValidationError} An item read no bytes.
+   */
+  #array(v: RepeatedReader<unknown>, temp: Temp): unknown[] {
+    const res: unknown[] = [];
+    if (v.count !== undefined) {
+      const count = (typeof v.count === 'number') ?
+        v.count :
+        v.count(temp, this);
+      for (let i = 0; !this.#truncated && (i < count); i++) {
+        res.push(this.#item(v, temp, i));
+      }
+      return res;
+    }
+    if (this.#truncated) {
+      return res;
+    }
+
+    let length = this.#len - this.#offset;
+    if (v.length !== undefined) {
+      length = (typeof v.length === 'number') ?
+        v.length :
+        v.length(temp, this);
+    }
+    const sr = this.sub(length);
+    if (!this.#truncated) {
+      // The whole region is present, so an item that runs past the end of
+      // it is malformed, not truncated.
+      sr.#allowTruncation = false;
+    }
+    while (!sr.finished && !sr.#truncated) {
+      const start = sr.#offset;
+      res.push(sr.#item(v, temp, res.length));
+      if (!sr.#truncated && (sr.#offset === start)) {
+        throw sr.#error(new ValidationError(
+          `Array item ${res.length - 1} read no bytes`, sr.#base + start
+        ));
+      }
+    }
+    return res;
+  }
+
+  /**
+   * Read one item of an array field.
+   *
+   * @param v Field description.
+   * @param temp Temp fields that are visible to the item.
+   * @param i Index of the item, for tracing and errors.
+   * @returns Item.
+   */
+  #item(v: RepeatedReader<unknown>, temp: Temp, i: number): unknown {
+    return this.#named(v.items.read, i, () => this.#field(v.items, temp));
+  }
+
+  /**
+   * Read an integer, and split it into sub-fields.
+   *
+   * @param v Field description.
+   * @param temp All sub-fields are stored here.
+   * @param res Sub-fields that do not start with "_" are stored here.
+   * @throws {RangeError} Invalid bit range.
+   */
+  #bitFields(v: BitsReader, temp: Temp, res: Temp): void {
+    const n = this[v.from](v.littleEndian);
+    if (this.#truncated) {
+      return;
+    }
+    const big = BigInt(n);
+    for (const [k, f] of Object.entries(v.fields)) {
+      let {start, finish = start} = f;
+      if (finish > start) {
+        [start, finish] = [finish, start];
+      }
+      const width = start - finish + 1;
+      if (!Number.isInteger(finish) || (finish < 0) || (width > 53)) {
+        throw new RangeError(`Invalid bit range for "${k}"`);
+      }
+      let val: number | boolean = Number(
+        BigInt.asUintN(width, big >> BigInt(finish))
+      );
+      if (width === 1) {
+        val = Boolean(val);
+      } else if (f.signed && (val >= 2 ** (width - 1))) {
+        val -= 2 ** width;
+      }
+      if (k.startsWith('_')) {
+        temp[k.slice(1)] = val;
+      } else {
+        temp[k] = val;
+        res[k] = val;
+      }
+    }
+  }
+
+  /**
+   * Read the nested structure for the matching case of a switch field.
+   *
+   * @param v Field description.
+   * @param temp Temp fields that are visible to the cases.
+   * @returns Nested structure, or undefined if truncated.
+   * @throws {ValidationError} Unknown discriminator.
+   */
+  #switch(v: SwitchReader<unknown>, temp: Temp): Temp | undefined {
+    if (this.#truncated) {
+      return undefined;
+    }
+    const key = String(v.on(temp, this));
+    const name = Object.hasOwn(v.cases, key) ? key : v.default;
+    if (name === undefined) {
+      throw this.#error(new ValidationError(
+        `Unknown switch case: ${key}`, this.#base + this.#offset
+      ));
+    }
+    const res = this.#struct(v.cases[name], Object.create(temp) as Temp);
+    return v.tag ? {[v.tag]: name, ...res} : res;
+  }
+
+  /**
+   * Skip padding bytes.
+   *
+   * @param length Number of bytes.
+   * @param checkZero If true, throw an error if any byte is not zero.
+   * @throws {ValidationError} Non-zero padding.
+   */
+  #padding(length: number, checkZero = false): void {
+    const start = this.#base + this.#offset;
+    const pad = this.bytes(length);
+    if (checkZero) {
+      const bad = pad.findIndex(b => b !== 0);
+      if (bad !== -1) {
+        throw this.#error(new ValidationError(
+          `Non-zero padding at ${start + bad}`, start + bad
+        ));
+      }
+    }
+  }
+
+  /**
+   * Read a LEB128-encoded integer.
+   *
+   * @param signed If true, sign-extend the result.
+   * @returns The value, or undefined on allowed truncation.
+   * @throws {VarintError} Overlong encoding, or more than 64 bits.
+   */
+  #leb128(signed: boolean): bigint | undefined {
+    const start = this.#base + this.#offset;
+    let res = 0n;
+    let shift = 0n;
+    let prev = 0;
+    let byte = 0;
+    let count = 0;
+    do {
+      prev = byte;
+      byte = this.u8();
+      if (Number.isNaN(byte)) {
+        return undefined;
+      }
+      if (++count > 10) {
+        throw this.#error(new VarintError(start, count, 'more than 64 bits'));
+      }
+      res |= BigInt(byte & 0x7f) << shift;
+      shift += 7n;
+    } while (byte & 0x80);
+
+    // The tenth byte only has room for bit 63.  If signed, the rest of the
+    // byte must match the sign.
+    if ((count === 10) &&
+        (signed ? ((byte !== 0) && (byte !== 0x7f)) : (byte > 1))) {
+      throw this.#error(new VarintError(start, count, 'more than 64 bits'));
+    }
+
+    if (count > 1) {
+      // The last byte carried no information beyond what the previous byte
+      // already implied.
+      const overlong = signed ?
+        (((byte === 0) && !(prev & 0x40)) ||
+          ((byte === 0x7f) && Boolean(prev & 0x40))) :
+        (byte === 0);
+      if (overlong) {
+        throw this.#error(new VarintError(start, count, 'overlong encoding'));
+      }
+    }
+
+    if (signed && (byte & 0x40)) {
+      res -= 1n << shift;
+    }
+    return res;
+  }
+
+  /**
+   * Decode text that was just read.
+   *
+   * @param bytes Bytes that were just read.
+   * @param td Decoder, defaulting to UTF-8.
+   * @returns Decoded string.
+   * @throws {UTF8Error} Invalid text.
+   */
+  #text(bytes: Uint8Array, td = this.#td): string {
+    try {
+      return decode(td, bytes, this.#base + this.#offset - bytes.length);
+    } catch (e) {
+      throw this.#error(e);
+    }
+  }
+
+  /**
+   * Add a hexdump of the input around the offset of an error, if it is a
+   * ReadError.
+   *
+   * @param err Error.
+   * @returns The same error.
+   */
+  #error<E extends ReadError>(err: E): E;
+  #error(err: unknown): unknown;
+  #error(err: unknown): unknown {
+    if (err instanceof ReadError) {
+      // Error offsets are from the start of the outermost reader.
+      const offset = Math.min(
+        Math.max((err.offset ?? this.#base + this.#offset) - this.#base, 0),
+        this.#len
+      );
+      const from = Math.max(0, (Math.floor(offset / 16) - 1) * 16);
+      err.addContext({
+        hex: hexdump(this.#bytes.subarray(from, from + 48), {
+          offset: this.#base + from,
+        }),
+      });
+    }
+    return err;
+  }
+
+  /**
+   * Get the path to the field being read, for errors.
+   *
+   * @returns Path, such as "header.options[2].length".
+   */
+  #pathString(): string {
+    let res = this.#pathPrefix;
+    for (const p of this.#path) {
+      if (typeof p === 'number') {
+        res += `[${p}]`;
+      } else {
+        res += res ? `.${p}` : p;
+      }
+    }
+    return res;
+  }
+
+  /**
+   * Run fn with name added to the field path.  ReadErrors thrown by fn get
+   * the path, kind, and a hexdump added.
+   *
+   * @param name Field name or array index.
+   * @param kind Kind of read, or empty if not known, such as for an item
+   *   whose kind depends on a callback.
+   * @param fn Function that reads.
+   * @returns The result of fn.
+   * @throws {ReadError} Annotated errors from fn.
+   */
+  #inPath<T>(name: string | number, kind: string, fn: () => T): T {
+    this.#path.push(name);
+    try {
+      return fn();
+    } catch (e) {
+      if (e instanceof ReadError) {
+        this.#error(e).addContext({path: this.#pathString(), kind});
+      }
+      throw e;
+    } finally {
+      this.#path.pop();
+    }
+  }
+
+  /**
+   * Read a named field, adding it to the field path and the trace.
+   *
+   * @param kind Kind of read, or empty for an item of unknown kind, which is
+   *   traced as "item".
+   * @param name Field name or array index.
+   * @param fn Function that reads.
+   * @returns The result of fn.
+   */
+  #named<T>(kind: string, name: string | number, fn: () => T): T {
+    return this.#inPath(
+      name, kind, () => this.#traced(kind || 'item', String(name), fn)
+    );
+  }
+
+  /**
+   * Add an entry to the trace for a read, if tracing.  A named entry whose
+   * only child is an unnamed read of the same bytes replaces that child,
+   * so that simple struct fields are a single entry.
+   *
+   * @param read Read method or kind.
+   * @param name Field name, if any.
+   * @param fn Function that does the read.
+   * @param nested If true, the reads done by fn are traced as children.
+   * @returns The result of fn.
+   */
+  #traced<T>(
+    read: string,
+    name: string | undefined,
+    fn: () => T,
+    nested = true
+  ): T {
+    const parent = this.#trace;
+    if (!parent) {
+      return fn();
+    }
+    const start = this.#offset;
+    const entry: TraceEntry = {
+      read,
+      start: this.#base + start,
+      length: 0,
+      bytes: this.#bytes.subarray(start, start),
+      value: undefined,
+      children: [],
+    };
+    if (name !== undefined) {
+      entry.name = name;
+    }
+    parent.push(entry);
+    this.#trace = nested ? entry.children : undefined;
+    try {
+      entry.value = fn();
+      return entry.value as T;
+    } finally {
+      this.#trace = parent;
+      const end = Math.min(this.#offset, this.#len);
+      entry.length = Math.max(end - start, 0);
+      entry.bytes = this.#bytes.subarray(start, start + entry.length);
+      const [child] = entry.children;
+      if ((name !== undefined) && (entry.children.length === 1) &&
+        (child.name === undefined) && (child.length === entry.length)) {
+        entry.children = child.children;
+        entry.value ??= child.value;
+        if (entry.read === 'item') {
+          entry.read = child.read;
+        }
+      }
+    }
   }
 
   /**
@@ -574,6 +2155,18 @@ export class DataViewReader {
     }
   }
 
+  /**
+   * Make sure a checksum region came from this reader.
+   *
+   * @param region Region to check.
+   * @throws {Error} Region from a different reader.
+   */
+  #checkRegion(region: ChecksumRegion): void {
+    if (!this.#regions.has(region)) {
+      throw new Error('Invalid checksum region for this reader');
+    }
+  }
+
   /**
    * Move the offset ahead by a number of bytes.
    *
@@ -595,7 +2188,9 @@ export class DataViewReader {
         this.#truncated = true;
         return NaN;
       }
-      throw new TruncationError(start, add, this.#len);
+      throw this.#error(new TruncationError(
+        this.#base + start, add, this.#base + this.#len
+      ));
     }
     return this.#offset;
   }
@@ -0,0 +1,71 @@
+import {UTF8Error} from './errors.ts';
+
+const decoders = new Map<string, TextDecoder>();
+
+/**
+ * Get a cached TextDecoder for the given encoding.
+ *
+ * @param encoding Any WHATWG encoding label, such as "utf-16le" or
+ *   "windows-1252".
+ * @param fatal If true, throw on invalid input rather than using the
+ *   replacement character.
+ * @returns Decoder.
+ * @throws {RangeError} Unknown encoding.
+ */
+export function decoder(encoding: string, fatal: boolean): TextDecoder {
+  const key = `${encoding}\u0000${fatal}`;
+  let td = decoders.get(key);
+  if (!td) {
+    td = new TextDecoder(encoding, {ignoreBOM: false, fatal});
+    decoders.set(key, td);
+  }
+  return td;
+}
+
+/**
+ * Decode text, turning decoding failures into UTF8Error.
+ *
+ * @param td Decoder.
+ * @param buf Bytes to decode.
+ * @param start Offset of buf in the input, for errors.
+ * @returns Decoded string.
+ * @throws {UTF8Error} Invalid text, if td is fatal.
+ */
+export function decode(
+  td: TextDecoder,
+  buf: Uint8Array,
+  start: number
+): string {
+  try {
+    return td.decode(buf);
+  } catch {
+    throw new UTF8Error(start, buf.length, td.encoding);
+  }
+}
+
+/**
+ * Decode UTF-16 bytes.  If the bytes start with a byte order mark, it
+ * overrides the given endianness, and is removed.
+ *
+ * @param buf Bytes to decode.
+ * @param littleEndian Endianness to use if there is no byte order mark.
+ * @param fatal If true, throw on invalid input.
+ * @param start Offset of buf in the input, for errors.
+ * @returns Decoded string.
+ * @throws {UTF8Error} Invalid text, if fatal.
+ */
+export function decodeUtf16(
+  buf: Uint8Array,
+  littleEndian: boolean,
+  fatal: boolean,
+  start: number
+): string {
+  if ((buf[0] === 0xff) && (buf[1] === 0xfe)) {
+    littleEndian = true;
+  } else if ((buf[0] === 0xfe) && (buf[1] === 0xff)) {
+    littleEndian = false;
+  }
+  return decode(
+    decoder(littleEndian ? 'utf-16le' : 'utf-16be', fatal), buf, start
+  );
+}
@@ -0,0 +1,265 @@
+import {ValidationError} from './errors.ts';
+
+/**
+ * Binary time formats.
+ *
+ * - unix32: unsigned 32-bit seconds since 1970, as in gzip, TLS, and PE.
+ * - unix64: signed 64-bit seconds since 1970.
+ * - unixMs: signed 64-bit milliseconds since 1970, as in Java and JS.
+ * - ntp: 32-bit seconds since 1900, then a 32-bit binary fraction of a
+ *   second (RFC 5905, era 0 only).
+ * - filetime: unsigned 64-bit count of 100ns intervals since 1601, as in
+ *   Windows FILETIME.
+ * - dos: 16-bit time then 16-bit date, as in FAT and ZIP, with 2-second
+ *   resolution.  DOS times have no timezone; they are treated as UTC.
+ * - pcap: 32-bit seconds since 1970, then 32-bit microseconds.
+ *
+ * For the formats that have two parts, the byte order applies to each part
+ * separately.
+ */
+export type TimestampFormat =
+  'unix32' | 'unix64' | 'unixMs' | 'ntp' | 'filetime' | 'dos' | 'pcap';
+
+/** Number of bytes in each format. */
+export const TIMESTAMP_SIZE: {readonly [K in TimestampFormat]: number} = {
+  unix32: 4,
+  unix64: 8,
+  unixMs: 8,
+  ntp: 8,
+  filetime: 8,
+  dos: 4,
+  pcap: 8,
+};
+
+const NS_PER_SEC = 1_000_000_000n;
+const NS_PER_MS = 1_000_000n;
+const NTP_EPOCH = 2_208_988_800n; // Seconds from 1900 to 1970.
+const FILETIME_EPOCH = 116_444_736_000_000_000n; // 100ns from 1601 to 1970.
+const U32_RANGE: [bigint, bigint] = [0n, 0xffffffffn];
+const I64_RANGE: [bigint, bigint] = [-(1n << 63n), (1n << 63n) - 1n];
+
+/**
+ * Get the size of a time format.
+ *
+ * @param format Time format.
+ * @returns Number of bytes.
+ * @throws {TypeError} Invalid format.
+ */
+export function timestampSize(format: TimestampFormat): number {
+  if (!Object.hasOwn(TIMESTAMP_SIZE, format)) {
+    throw new TypeError(`Invalid timestamp format: ${format}`);
+  }
+  return TIMESTAMP_SIZE[format];
+}
+
+/**
+ * Divide, rounding towards negative infinity.
+ *
+ * @param n Numerator.
+ * @param d Positive denominator.
+ * @returns Quotient and non-negative remainder.
+ */
+function floorDiv(n: bigint, d: bigint): [q: bigint, r: bigint] {
+  let q = n / d;
+  let r = n % d;
+  if (r < 0n) {
+    q--;
+    r += d;
+  }
+  return [q, r];
+}
+
+/**
+ * Get the value of a timestamp.
+ *
+ * @param format Time format.
+ * @param bytes Exactly TIMESTAMP_SIZE[format] bytes.
+ * @param littleEndian Byte order.
+ * @returns Nanoseconds since 1970-01-01T00:00:00Z.
+ * @throws {TypeError} Invalid format.
+ * @throws {ValidationError} Invalid field in a DOS timestamp.
+ */
+export function decodeTimestamp(
+  format: TimestampFormat,
+  bytes: Uint8Array,
+  littleEndian: boolean
+): bigint {
+  const dv = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  switch (format) {
+    case 'unix32':
+      return BigInt(dv.getUint32(0, littleEndian)) * NS_PER_SEC;
+    case 'unix64':
+      return dv.getBigInt64(0, littleEndian) * NS_PER_SEC;
+    case 'unixMs':
+      return dv.getBigInt64(0, littleEndian) * NS_PER_MS;
+    case 'ntp': {
+      const sec = BigInt(dv.getUint32(0, littleEndian)) - NTP_EPOCH;
+      const frac = BigInt(dv.getUint32(4, littleEndian));
+      return (sec * NS_PER_SEC) + ((frac * NS_PER_SEC) >> 32n);
+    }
+    case 'filetime':
+      return (dv.getBigUint64(0, littleEndian) - FILETIME_EPOCH) * 100n;
+    case 'dos': {
+      const time = dv.getUint16(0, littleEndian);
+      const date = dv.getUint16(2, littleEndian);
+      const year = 1980 + (date >> 9);
+      const month = (date >> 5) & 0x0f;
+      const day = date & 0x1f;
+      const hour = time >> 11;
+      const minute = (time >> 5) & 0x3f;
+      const second = (time & 0x1f) * 2;
+      const ms = Date.UTC(year, month - 1, day, hour, minute, second);
+
+      // Date.UTC rolls out-of-range fields over into the next larger field,
+      // so any field that was out of range will not match.
+      const d = new Date(ms);
+      if ((d.getUTCMonth() !== month - 1) || (d.getUTCDate() !== day) ||
+          (d.getUTCHours() !== hour) || (d.getUTCMinutes() !== minute) ||
+          (d.getUTCSeconds() !== second)) {
+        throw new ValidationError(
+          `Invalid ${format} timestamp: ${year}-${month}-${day} ` +
+            `${hour}:${minute}:${second}`
+        );
+      }
+      return BigInt(ms) * NS_PER_MS;
+    }
+    case 'pcap': {
+      const sec = BigInt(dv.getUint32(0, littleEndian));
+      const usec = BigInt(dv.getUint32(4, littleEndian));
+      return (sec * NS_PER_SEC) + (usec * 1000n);
+    }
+  }
+  throw new TypeError(`Invalid timestamp format: ${format as string}`);
+}
+
+/**
+ * Convert nanoseconds since 1970 to a Date, rounding down to the
+ * millisecond.
+ *
+ * @param ns Nanoseconds since 1970-01-01T00:00:00Z.
+ * @returns Date.
+ */
+export function nsToDate(ns: bigint): Date {
+  return new Date(Number(floorDiv(ns, NS_PER_MS)[0]));
+}
+
+/**
+ * Check that a time fits in a format without losing precision.
+ *
+ * @param format Time format, for error messages.
+ * @param ns Nanoseconds since 1970.
+ * @param unit Resolution of the format in nanoseconds.
+ * @param range Smallest and largest valid number of units.
+ * @returns Number of units.
+ * @throws {RangeError} Out of range or would lose precision.
+ */
+function units(
+  format: TimestampFormat,
+  ns: bigint,
+  unit: bigint,
+  range: [min: bigint, max: bigint]
+): bigint {
+  const [min, max] = range;
+  const [q, r] = floorDiv(ns, unit);
+  if ((q < min) || (q > max)) {
+    throw new RangeError(`Time out of range for ${format} timestamp`);
+  }
+  if (r) {
+    throw new RangeError(`Casting this time to ${format} would lose precision`);
+  }
+  return q;
+}
+
+/**
+ * Encode a timestamp.  NTP fractions are rounded up, so that decoding
+ * gives back the original nanoseconds.
+ *
+ * @param format Time format.
+ * @param time Date, or nanoseconds since 1970-01-01T00:00:00Z.
+ * @param littleEndian Byte order.
+ * @returns TIMESTAMP_SIZE[format] bytes.
+ * @throws {RangeError} Invalid date, out of range, or would lose precision.
+ * @throws {TypeError} Invalid format.
+ */
+export function encodeTimestamp(
+  format: TimestampFormat,
+  time: Date | bigint,
+  littleEndian: boolean
+): Uint8Array {
+  let ns = 0n;
+  if (typeof time === 'bigint') {
+    ns = time;
+  } else {
+    const ms = time.getTime();
+    if (Number.isNaN(ms)) {
+      throw new RangeError('Invalid date');
+    }
+    ns = BigInt(ms) * NS_PER_MS;
+  }
+  const bytes = new Uint8Array(timestampSize(format));
+  const dv = new DataView(bytes.buffer);
+  switch (format) {
+    case 'unix32':
+      dv.setUint32(
+        0, Number(units(format, ns, NS_PER_SEC, U32_RANGE)), littleEndian
+      );
+      break;
+    case 'unix64':
+      dv.setBigInt64(
+        0, units(format, ns, NS_PER_SEC, I64_RANGE), littleEndian
+      );
+      break;
+    case 'unixMs':
+      dv.setBigInt64(
+        0, units(format, ns, NS_PER_MS, I64_RANGE), littleEndian
+      );
+      break;
+    case 'ntp': {
+      const [sec, rem] = floorDiv(ns, NS_PER_SEC);
+      const frac = ((rem << 32n) + NS_PER_SEC - 1n) / NS_PER_SEC;
+      units(format, sec + NTP_EPOCH, 1n, U32_RANGE);
+      dv.setUint32(0, Number(sec + NTP_EPOCH), littleEndian);
+      dv.setUint32(4, Number(frac), littleEndian);
+      break;
+    }
+    case 'filetime':
+      dv.setBigUint64(
+        0,
+        units(format, ns, 100n, [
+          -FILETIME_EPOCH,
+          (1n << 64n) - 1n - FILETIME_EPOCH,
+        ]) + FILETIME_EPOCH,
+        littleEndian
+      );
+      break;
+    case 'dos': {
+      const ms = units(format, ns, 2n * NS_PER_SEC, U32_RANGE) * 2000n;
+      const d = new Date(Number(ms));
+      const year = d.getUTCFullYear() - 1980;
+      if ((year < 0) || (year > 0x7f)) {
+        throw new RangeError(`Time out of range for ${format} timestamp`);
+      }
+      dv.setUint16(
+        0,
+        (d.getUTCHours() << 11) | (d.getUTCMinutes() << 5) |
+          (d.getUTCSeconds() >> 1),
+        littleEndian
+      );
+      dv.setUint16(
+        2,
+        (year << 9) | ((d.getUTCMonth() + 1) << 5) | d.getUTCDate(),
+        littleEndian
+      );
+      break;
+    }
+    case 'pcap': {
+      const usec = units(format, ns, 1000n, [0n, (1n << 32n) * 1_000_000n]);
+      const [sec, rem] = floorDiv(usec, 1_000_000n);
+      units(format, sec, 1n, U32_RANGE);
+      dv.setUint32(0, Number(sec), littleEndian);
+      dv.setUint32(4, Number(rem), littleEndian);
+      break;
+    }
+  }
+  return bytes;
+}
@@ -0,0 +1,35 @@
+/**
+ * One read from a DataViewReader that was created with the trace option.
+ * Reads that are made up of other reads, such as struct fields, times(),
+ * sub-readers, and Packet fields, have the inner reads as children.
+ */
+export interface TraceEntry {
+  /**
+   * Read method, such as "u8" or "struct", the kind of a struct or Packet
+   * field, "sub" for a sub-reader, or "item" for an item of times() or
+   * Packet.while() that was read in several parts.
+   */
+  read: string;
+
+  /** Field name or array index, from struct(), times(), or Packet. */
+  name?: string;
+
+  /**
+   * Offset of the first byte.  Offsets in sub-readers are from the start of
+   * the outermost reader.
+   */
+  start: number;
+
+  /** Number of bytes read, not counting any past the end of the input. */
+  length: number;
+
+  /** The bytes that were read, without copying. */
+  bytes: Uint8Array;
+
+  /** Value that was read, or undefined if the read threw. */
+  value: unknown;
+
+  /** Nested reads, in order. */
+  children: TraceEntry[];
+}
+
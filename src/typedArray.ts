@@ -0,0 +1,121 @@
+/** From the read method of each element to the type of array produced. */
+export interface TypedArrays {
+  u8: Uint8Array;
+  u16: Uint16Array;
+  u32: Uint32Array;
+  u64: BigUint64Array;
+  i8: Int8Array;
+  i16: Int16Array;
+  i32: Int32Array;
+  i64: BigInt64Array;
+  f32: Float32Array;
+  f64: Float64Array;
+}
+
+export type TypedArrayKind = keyof TypedArrays;
+
+type TypedArray = TypedArrays[TypedArrayKind];
+
+interface TypedArrayConstructor {
+  BYTES_PER_ELEMENT: number;
+  new (length: number): TypedArray;
+  new (buf: ArrayBufferLike, offset: number, length: number): TypedArray;
+}
+
+const CONSTRUCTORS: {[K in TypedArrayKind]: TypedArrayConstructor} = {
+  u8: Uint8Array,
+  u16: Uint16Array,
+  u32: Uint32Array,
+  u64: BigUint64Array,
+  i8: Int8Array,
+  i16: Int16Array,
+  i32: Int32Array,
+  i64: BigInt64Array,
+  f32: Float32Array,
+  f64: Float64Array,
+};
+
+/** Is this host little-endian?  Typed arrays always use host order. */
+export const HOST_LITTLE_ENDIAN =
+  new Uint8Array(new Uint16Array([1]).buffer)[0] === 1;
+
+/**
+ * Reverse the bytes of each element, in place.
+ *
+ * @param buf Bytes to swap.
+ * @param size Size of each element.
+ * @returns The same buffer.
+ */
+function swap(buf: Uint8Array, size: number): Uint8Array {
+  if (size > 1) {
+    for (let i = 0; i < buf.length; i += size) {
+      buf.subarray(i, i + size).reverse();
+    }
+  }
+  return buf;
+}
+
+/**
+ * Get the constructor for a kind of typed array.
+ *
+ * @param kind Read method of each element.
+ * @returns Constructor.
+ * @throws {TypeError} Unknown kind.
+ */
+export function typedArrayConstructor(
+  kind: TypedArrayKind
+): TypedArrayConstructor {
+  if (!Object.hasOwn(CONSTRUCTORS, kind)) {
+    throw new TypeError(`Invalid typed array kind: ${kind}`);
+  }
+  return CONSTRUCTORS[kind];
+}
+
+/**
+ * Interpret bytes as a typed array.  If the bytes are correctly aligned and
+ * already in host order, the result shares memory with the input.
+ * Otherwise, the bytes are copied, and swapped if needed.
+ *
+ * @param kind Read method of each element.
+ * @param bytes Bytes to interpret, which must be a multiple of the element
+ *   size.
+ * @param littleEndian Byte order of the input.
+ * @returns Typed array.
+ */
+export function toTypedArray<K extends TypedArrayKind>(
+  kind: K,
+  bytes: Uint8Array,
+  littleEndian: boolean
+): TypedArrays[K] {
+  const Ctor = typedArrayConstructor(kind);
+  const size = Ctor.BYTES_PER_ELEMENT;
+  const count = bytes.length / size;
+  const native = (size === 1) || (littleEndian === HOST_LITTLE_ENDIAN);
+  if (native && (bytes.byteOffset % size === 0)) {
+    return new Ctor(bytes.buffer, bytes.byteOffset, count) as TypedArrays[K];
+  }
+  const copy = bytes.slice();
+  if (!native) {
+    swap(copy, size);
+  }
+  return new Ctor(copy.buffer, 0, count) as TypedArrays[K];
+}
+
+/**
+ * Get the bytes of a typed array in the given byte order.  If the array is
+ * already in that order, the result shares memory with the array.
+ *
+ * @param arr Typed array.
+ * @param littleEndian Byte order of the output.
+ * @returns Bytes.
+ */
+export function typedArrayBytes(
+  arr: TypedArray,
+  littleEndian: boolean
+): Uint8Array {
+  const bytes = new Uint8Array(arr.buffer, arr.byteOffset, arr.byteLength);
+  if ((arr.BYTES_PER_ELEMENT === 1) || (littleEndian === HOST_LITTLE_ENDIAN)) {
+    return bytes;
+  }
+  return swap(bytes.slice(), arr.BYTES_PER_ELEMENT);
+}
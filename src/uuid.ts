@@ -0,0 +1,79 @@
+/**
+ * Byte layout of a UUID.  "rfc" is the big-endian layout of RFC 9562.
+ * "microsoft" is the layout of Windows GUIDs, as in NTFS, GPT and COM, where
+ * the first three groups are little-endian.
+ */
+export type UuidLayout = 'rfc' | 'microsoft';
+
+/** Size of a UUID, in bytes. */
+export const UUID_SIZE = 16;
+
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Check that a UUID layout is valid, before reading any bytes.
+ *
+ * @param layout Layout.
+ * @throws {TypeError} Invalid layout.
+ */
+export function checkUuidLayout(layout: UuidLayout): void {
+  if ((layout !== 'rfc') && (layout !== 'microsoft')) {
+    throw new TypeError(`Invalid UUID layout: ${layout as string}`);
+  }
+}
+
+/**
+ * Swap between the two layouts.  The operation is its own inverse.
+ *
+ * @param bytes Sixteen bytes, not modified.
+ * @param layout Layout.
+ * @returns Bytes in the other layout, or the original bytes for "rfc".
+ */
+function swapLayout(bytes: Uint8Array, layout: UuidLayout): Uint8Array {
+  checkUuidLayout(layout);
+  if (layout === 'rfc') {
+    return bytes;
+  }
+  const res = bytes.slice();
+  res.subarray(0, 4).reverse();
+  res.subarray(4, 6).reverse();
+  res.subarray(6, 8).reverse();
+  return res;
+}
+
+/**
+ * Format a UUID in the canonical lowercase hyphenated form.
+ *
+ * @param bytes Sixteen bytes.
+ * @param layout Layout of the bytes.
+ * @returns UUID, such as "f81d4fae-7dec-11d0-a765-00a0c91e6bf6".
+ * @throws {TypeError} Invalid layout.
+ */
+export function uuidToString(bytes: Uint8Array, layout: UuidLayout): string {
+  const hex = Array.from(
+    swapLayout(bytes, layout),
+    b => b.toString(16).padStart(2, '0')
+  ).join('');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
+
+/**
+ * Parse a UUID in the hyphenated form, in either case.
+ *
+ * @param uuid UUID, such as "f81d4fae-7dec-11d0-a765-00a0c91e6bf6".
+ * @param layout Layout of the result.
+ * @returns Sixteen bytes.
+ * @throws {RangeError} Malformed UUID.
+ * @throws {TypeError} Invalid layout.
+ */
+export function parseUUID(uuid: string, layout: UuidLayout): Uint8Array {
+  if (!UUID.test(uuid)) {
+    throw new RangeError(`Invalid UUID: "${uuid}"`);
+  }
+  const hex = uuid.replaceAll('-', '');
+  const bytes = new Uint8Array(UUID_SIZE);
+  for (let i = 0; i < UUID_SIZE; i++) {
+    bytes[i] = parseInt(hex.slice(i * 2, (i * 2) + 2), 16);
+  }
+  return swapLayout(bytes, layout);
+}
@@ -1,9 +1,37 @@
+import {
+  ADDRESS_SIZE,
+  ipv4ToString,
+  ipv6ToString,
+  macToString,
+} from './address.ts';
 import {
   DataViewReader,
+  type LengthPrefix,
+  type Reader,
   SIZE,
   type Struct,
   type StructDefinition,
 } from './reader.ts';
+import {type FixedPoint, fixedBytes, fromFixed} from './fixed.ts';
+import {
+  type TimestampFormat,
+  decodeTimestamp,
+  nsToDate,
+  timestampSize,
+} from './timestamp.ts';
+import {
+  type TypedArrayKind,
+  type TypedArrays,
+  toTypedArray,
+  typedArrayConstructor,
+} from './typedArray.ts';
+import {
+  UUID_SIZE,
+  type UuidLayout,
+  checkUuidLayout,
+  uuidToString,
+} from './uuid.ts';
+import {decode, decodeUtf16, decoder} from './strings.ts';
 import {WritableSink} from './writableSink.ts';
 import {assert} from '@cto.af/utils';
 import {parseHalf} from './half.ts';
@@ -23,22 +51,93 @@ export interface DataViewWritableStreamOptions {
    */
   littleEndian?: boolean;
 
-  /** If there is an error in UTF8 encoding, use the replacement character. */
+  /**
+   * If there is an error in UTF8 encoding, use the replacement character.
+   * Also applies to UTF-16 and other encodings.
+   */
   ignoreUTF8errors?: boolean;
 }
 
 const TD = new TextDecoder('utf8', {ignoreBOM: false});
 const TDF = new TextDecoder('utf8', {ignoreBOM: false, fatal: true});
 
-// From the last char of a sized field to the field size in bytes.
-const BYTELEN: {[last: string]: number} = {
-  8: 1, // 8
-  6: 2, // 16
-  2: 4, // 32
-  4: 8, // 64
-  t: 0, // "constant"
+// From the read method of a fixed-size field to the field size in bytes.
+const BYTELEN: {[read: string]: number} = {
+  u8: 1,
+  u16: 2,
+  u24: 3,
+  u32: 4,
+  u40: 5,
+  u48: 6,
+  u56: 7,
+  u64: 8,
+  i8: 1,
+  i16: 2,
+  i24: 3,
+  i32: 4,
+  i40: 5,
+  i48: 6,
+  i56: 7,
+  i64: 8,
+  f16: 2,
+  f32: 4,
+  f64: 8,
+  constant: 0,
+  ...ADDRESS_SIZE,
 };
 
+/**
+ * Compute the size of a field with a known size.  The sizes of structures
+ * are cached in their definitions.
+ *
+ * @param v Field description.
+ * @param offset Offset of the field from the start of its structure.
+ * @returns Size in bytes.
+ */
+function fieldSize(v: Reader<unknown>, offset: number): number {
+  assert(!v.when, 'Conditional field has no implicit size');
+  switch (v.read) {
+    case 'align':
+      return (v.alignment - (offset % v.alignment)) % v.alignment;
+    case 'pad':
+      if (typeof v.length === 'number') {
+        return v.length;
+      }
+      break;
+    case 'enum':
+    case 'flags':
+    case 'bits':
+      return BYTELEN[v.from];
+    case 'fixed':
+      return fixedBytes(v);
+    case 'struct': {
+      let length = v.fields[SIZE];
+      if (typeof length !== 'number') {
+        length = 0;
+        // eslint-disable-next-line guard-for-in
+        for (const k in v.fields) {
+          length += fieldSize(v.fields[k], length);
+        }
+        v.fields[SIZE] = length;
+      }
+      return length;
+    }
+    case 'array':
+      // Same precedence as DataViewReader: count wins over length.
+      if (v.count !== undefined) {
+        if (typeof v.count === 'number') {
+          return v.count * fieldSize(v.items, 0);
+        }
+      } else if (typeof v.length === 'number') {
+        return v.length;
+      }
+      break;
+  }
+  const s = BYTELEN[v.read];
+  assert(typeof s === 'number', 'Invalid read method for implicit size');
+  return s;
+}
+
 /**
  * This is readable in the DataView sense, but writable in the stream sense.
  */
@@ -125,6 +224,28 @@ export class DataViewWritableStream extends WritableStream<Uint8Array> {
     return this.#sink.read(size);
   }
 
+  /**
+   * Wait for many numbers at once, and read them into a typed array, such as
+   * audio samples.  The bytes are copied and swapped if they are not
+   * aligned for the element size or not in host byte order.
+   *
+   * @param kind Read method for each element, such as "i16" or "f32".
+   * @param count Number of elements.
+   * @param littleEndian Override the endianness of the stream.
+   * @returns Promise that is rejected if stream is closed without enough
+   *   data.
+   * @throws {TypeError} Invalid kind.
+   */
+  public async typedArray<K extends TypedArrayKind>(
+    kind: K,
+    count: number,
+    littleEndian = this.#little
+  ): Promise<TypedArrays[K]> {
+    const size = typedArrayConstructor(kind).BYTES_PER_ELEMENT;
+    const buf = await this.#sink.read(count * size);
+    return toTypedArray(kind, buf, littleEndian);
+  }
+
   /**
    * Peek at some bytes at the front of the queue.  This will cut the buffers
    * in the queue up, so it's likely to be slightly less performant than
@@ -224,6 +345,54 @@ export class DataViewWritableStream extends WritableStream<Uint8Array> {
     return this.#dv.getBigInt64(0, littleEndian);
   }
 
+  /**
+   * Wait for an unsigned integer of any size from 1 to 8 bytes to be
+   * available in the stream.
+   *
+   * @param bytes Number of bytes, from 1-8.
+   * @param littleEndian Override th endianness of the stream for a single read.
+   * @returns Promise that is rejected if stream is closed without enough data.
+   *   Fulfilled with a bigint for 7 or 8 bytes.
+   * @throws {RangeError} Invalid number of bytes.
+   */
+  public async uint(
+    bytes: 1 | 2 | 3 | 4 | 5 | 6, littleEndian?: boolean
+  ): Promise<number>;
+  public async uint(bytes: 7 | 8, littleEndian?: boolean): Promise<bigint>;
+  public async uint(
+    bytes: number, littleEndian?: boolean
+  ): Promise<number | bigint>;
+  public async uint(
+    bytes: number, littleEndian = this.#little
+  ): Promise<number | bigint> {
+    return new DataViewReader(await this.#intBytes(bytes))
+      .uint(bytes, littleEndian);
+  }
+
+  /**
+   * Wait for a two's-complement signed integer of any size from 1 to 8 bytes
+   * to be available in the stream.
+   *
+   * @param bytes Number of bytes, from 1-8.
+   * @param littleEndian Override th endianness of the stream for a single read.
+   * @returns Promise that is rejected if stream is closed without enough data.
+   *   Fulfilled with a bigint for 7 or 8 bytes.
+   * @throws {RangeError} Invalid number of bytes.
+   */
+  public async int(
+    bytes: 1 | 2 | 3 | 4 | 5 | 6, littleEndian?: boolean
+  ): Promise<number>;
+  public async int(bytes: 7 | 8, littleEndian?: boolean): Promise<bigint>;
+  public async int(
+    bytes: number, littleEndian?: boolean
+  ): Promise<number | bigint>;
+  public async int(
+    bytes: number, littleEndian = this.#little
+  ): Promise<number | bigint> {
+    return new DataViewReader(await this.#intBytes(bytes))
+      .int(bytes, littleEndian);
+  }
+
   /**
    * Wait for a short float to be available in the stream.
    *
@@ -257,6 +426,113 @@ export class DataViewWritableStream extends WritableStream<Uint8Array> {
     return this.#dv.getFloat64(0, littleEndian);
   }
 
+  /**
+   * Wait for a fixed-point number to be available in the stream.
+   *
+   * @param format Layout of the number.
+   * @param littleEndian Override th endianness of the stream for a single read.
+   * @returns Promise that is rejected if stream is closed without enough data.
+   * @throws {RangeError} Invalid format.
+   */
+  public async fixed(
+    format: FixedPoint, littleEndian = this.#little
+  ): Promise<number> {
+    const bytes = fixedBytes(format);
+    const r = new DataViewReader(await this.#sink.read(bytes));
+    return fromFixed(r.uint(bytes, littleEndian), format);
+  }
+
+  /**
+   * Wait for a timestamp to be available in the stream.  Precision finer
+   * than a millisecond is lost; use timestampNs() if that matters.
+   *
+   * @param format Time format.
+   * @param littleEndian Override th endianness of the stream for a single read.
+   * @returns Promise that is rejected if stream is closed without enough data.
+   * @throws {TypeError} Invalid format.
+   * @throws {ValidationError} Invalid DOS timestamp.
+   */
+  public async timestamp(
+    format: TimestampFormat, littleEndian = this.#little
+  ): Promise<Date> {
+    return nsToDate(await this.timestampNs(format, littleEndian));
+  }
+
+  /**
+   * Wait for a timestamp to be available in the stream, without losing
+   * precision.
+   *
+   * @param format Time format.
+   * @param littleEndian Override th endianness of the stream for a single read.
+   * @returns Promise that is rejected if stream is closed without enough data.
+   *   Fulfilled with nanoseconds since 1970-01-01T00:00:00Z.
+   * @throws {TypeError} Invalid format.
+   * @throws {ValidationError} Invalid DOS timestamp.
+   */
+  public async timestampNs(
+    format: TimestampFormat, littleEndian = this.#little
+  ): Promise<bigint> {
+    const bytes = await this.#sink.read(timestampSize(format));
+    return decodeTimestamp(format, bytes, littleEndian);
+  }
+
+  /**
+   * Wait for an IPv4 address to be available in the stream.
+   *
+   * @returns Promise that is rejected if stream is closed without enough data.
+   *   Fulfilled with a dotted quad, such as "192.0.2.1".
+   */
+  public async ipv4(): Promise<string> {
+    return ipv4ToString(await this.#sink.read(ADDRESS_SIZE.ipv4));
+  }
+
+  /**
+   * Wait for an IPv6 address to be available in the stream.
+   *
+   * @returns Promise that is rejected if stream is closed without enough data.
+   *   Fulfilled with the RFC 5952 format, such as "2001:db8::1".
+   */
+  public async ipv6(): Promise<string> {
+    return ipv6ToString(await this.#sink.read(ADDRESS_SIZE.ipv6));
+  }
+
+  /**
+   * Wait for a MAC address to be available in the stream.
+   *
+   * @returns Promise that is rejected if stream is closed without enough data.
+   *   Fulfilled with lowercase colon-separated hex, such as
+   *   "00:00:5e:00:53:01".
+   */
+  public async mac(): Promise<string> {
+    return macToString(await this.#sink.read(ADDRESS_SIZE.mac));
+  }
+
+  /**
+   * Wait for a UUID to be available in the stream.
+   *
+   * @param layout Byte layout, "microsoft" for Windows GUIDs.
+   * @returns Promise that is rejected if stream is closed without enough data.
+   *   Fulfilled with the canonical lowercase hyphenated form.
+   * @throws {TypeError} Invalid layout.
+   */
+  public async uuid(layout: UuidLayout = 'rfc'): Promise<string> {
+    checkUuidLayout(layout);
+    return uuidToString(await this.#sink.read(UUID_SIZE), layout);
+  }
+
+  /**
+   * Wait for a QUIC variable-length integer (RFC 9000, section 16) to be
+   * available in the stream.  The first byte is peeked at to determine how
+   * many bytes to wait for.
+   *
+   * @returns Promise that is rejected if stream is closed without enough data.
+   */
+  public async quicVarint(): Promise<number | bigint> {
+    const [first] = await this.#sink.peek(1);
+    const buf = await this.#sink.read(1 << (first >> 6));
+    return new DataViewReader(buf).quicVarint();
+  }
+
   /**
    * Wait for an ASCII string of a given size (in bytes) to be available in the
    * stream.  Decoding turns each byte into a single JS character directly,
@@ -280,7 +556,91 @@ export class DataViewWritableStream extends WritableStream<Uint8Array> {
    */
   public async utf8(length: number): Promise<string> {
     const buf = await this.#sink.read(length);
-    return this.#td.decode(buf);
+    return decode(this.#td, buf, this.offset - buf.length);
+  }
+
+  /**
+   * Wait for a UTF16-encoded string of a given size (in bytes) to be
+   * available in the stream.  If the bytes start with a byte order mark, it
+   * determines the endianness and is removed.
+   *
+   * @param length Number of bytes to read.
+   * @param littleEndian Override the endianness of the stream, if there is no
+   *   byte order mark.
+   * @returns Promise that is rejected if stream is closed without enough
+   *   data.
+   */
+  public async utf16(
+    length: number,
+    littleEndian = this.#little
+  ): Promise<string> {
+    const buf = await this.#sink.read(length);
+    return decodeUtf16(
+      buf, littleEndian, this.#td.fatal, this.offset - buf.length
+    );
+  }
+
+  /**
+   * Wait for a string of a given size (in bytes) in the given encoding to be
+   * available in the stream.
+   *
+   * @param length Number of bytes to read.
+   * @param encoding Any WHATWG encoding label, such as "windows-1252".
+   * @returns Promise that is rejected if stream is closed without enough
+   *   data, or if the encoding is unknown.
+   */
+  public async string(length: number, encoding: string): Promise<string> {
+    const td = decoder(encoding, this.#td.fatal);
+    const buf = await this.#sink.read(length);
+    return decode(td, buf, this.offset - buf.length);
+  }
+
+  /**
+   * Wait for an unsigned integer length, followed by that many bytes, to be
+   * available in the stream.
+   *
+   * @param prefix Type of the length.
+   * @param littleEndian Override the endianness of the stream for the length.
+   * @returns Promise that is rejected if stream is closed without enough data.
+   */
+  public async prefixedBytes(
+    prefix: LengthPrefix = 'u8',
+    littleEndian = this.#little
+  ): Promise<Uint8Array> {
+    const length = await this[prefix](littleEndian);
+    return this.#sink.read(length);
+  }
+
+  /**
+   * Wait for an unsigned integer length, followed by an ASCII string of that
+   * many bytes, to be available in the stream.
+   *
+   * @param prefix Type of the length.
+   * @param littleEndian Override the endianness of the stream for the length.
+   * @returns Promise that is rejected if stream is closed without enough data.
+   */
+  public async prefixedAscii(
+    prefix: LengthPrefix = 'u8',
+    littleEndian = this.#little
+  ): Promise<string> {
+    const buf = await this.prefixedBytes(prefix, littleEndian);
+    return String.fromCharCode(...buf);
+  }
+
+  /**
+   * Wait for an unsigned integer length, followed by a UTF8-encoded string of
+   * that many bytes, to be available in the stream.
+   *
+   * @param prefix Type of the length.
+   * @param littleEndian Override the endianness of the stream for the length.
+   * @returns Promise that is rejected if stream is closed without enough data.
+   */
+  public async prefixedUtf8(
+    prefix: LengthPrefix = 'u8',
+    littleEndian = this.#little
+  ): Promise<string> {
+    const buf = await this.prefixedBytes(prefix, littleEndian);
+    return decode(this.#td, buf, this.offset - buf.length);
   }
 
   /**
@@ -297,22 +657,24 @@ export class DataViewWritableStream extends WritableStream<Uint8Array> {
     length?: number
   ): Promise<Struct<T>> {
     if (typeof length !== 'number') {
-      length = description[SIZE];
-      if (typeof length !== 'number') {
-        length = 0;
-        // eslint-disable-next-line guard-for-in
-        for (const k in description) {
-          const v = description[k];
-          const s = BYTELEN[v.read.slice(-1)];
-          assert((typeof s === 'number') && (v.read !== 'utf8'),
-            'Invalid read method for implicit size');
-          length += s;
-        }
-        description[SIZE] = length;
-      }
+      length = fieldSize({read: 'struct', fields: description}, 0);
     }
     const buf = await this.#sink.read(length);
     const dvr = new DataViewReader(buf, {littleEndian: this.#little});
     return dvr.struct(description);
   }
+
+  /**
+   * Read the bytes for an arbitrary-width integer.
+   *
+   * @param bytes Number of bytes, from 1-8.
+   * @returns Promise fulfilled with the bytes.
+   * @throws {RangeError} Invalid number of bytes.
+   */
+  #intBytes(bytes: number): Promise<Uint8Array> {
+    if (!Number.isInteger(bytes) || (bytes < 1) || (bytes > 8)) {
+      throw new RangeError(`Invalid integer size: ${bytes}`);
+    }
+    return this.#sink.read(bytes);
+  }
 }
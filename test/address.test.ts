@@ -0,0 +1,69 @@
+import {assert, test} from 'vitest';
+import {
+  ipv4ToString,
+  ipv6ToString,
+  macToString,
+  parseIPv4,
+  parseIPv6,
+  parseMAC,
+} from '../src/address.ts';
+import {hex} from './utils.ts';
+
+test('ipv4', () => {
+  assert.equal(ipv4ToString(new Uint8Array([192, 0, 2, 1])), '192.0.2.1');
+  assert.deepEqual(parseIPv4('192.0.2.1'), new Uint8Array([192, 0, 2, 1]));
+  assert.deepEqual(parseIPv4('0.0.0.0'), new Uint8Array(4));
+  for (const bad of [
+    '', '1.2.3', '1.2.3.4.5', '256.0.0.1', '01.2.3.4', '1.2.3.a', '1..2.3',
+    ' 1.2.3.4',
+  ]) {
+    assert.throws(() => parseIPv4(bad), RangeError, undefined, bad);
+  }
+});
+
+test('ipv6', () => {
+  const cases: [string, string][] = [
+    ['20010db8000000000000000000000001', '2001:db8::1'],
+    ['00000000000000000000000000000000', '::'],
+    ['00000000000000000000000000000001', '::1'],
+    ['20010db8000000000000000000000000', '2001:db8::'],
+    ['20010db8000000010001000100010001', '2001:db8:0:1:1:1:1:1'],
+    ['20010db8000000000001000000000001', '2001:db8::1:0:0:1'],
+    ['20010db8000000010000000000000001', '2001:db8:0:1::1'],
+    ['00000000000000000000ffffc0000201', '::ffff:192.0.2.1'],
+    ['20010db8abcd00120000000000000000', '2001:db8:abcd:12::'],
+  ];
+  for (const [h, str] of cases) {
+    const bytes = hex(h);
+    assert.equal(ipv6ToString(bytes), str);
+    assert.deepEqual(parseIPv6(str), bytes, str);
+  }
+  assert.deepEqual(
+    parseIPv6('2001:DB8:0:0:0:0:0:1'),
+    hex('20010db8000000000000000000000001')
+  );
+  assert.deepEqual(
+    parseIPv6('64:ff9b::192.0.2.33'),
+    hex('0064ff9b0000000000000000c0000221')
+  );
+  for (const bad of [
+    '', ':', ':::', '1:2:3:4:5:6:7', '1:2:3:4:5:6:7:8:9', '1::2::3',
+    '1:2:3:4:5:6:7::8', '12345::', 'g::', '1.2.3.4::', '::1.2.3',
+    'fe80::1%eth0', ':1::', '1::2:',
+  ]) {
+    assert.throws(() => parseIPv6(bad), RangeError, undefined, bad);
+  }
+});
+
+test('mac', () => {
+  const bytes = new Uint8Array([0, 0, 0x5e, 0, 0x53, 0x01]);
+  assert.equal(macToString(bytes), '00:00:5e:00:53:01');
+  assert.deepEqual(parseMAC('00:00:5e:00:53:01'), bytes);
+  assert.deepEqual(parseMAC('00-00-5E-00-53-01'), bytes);
+  for (const bad of [
+    '', '00:00:5e:00:53', '00:00:5e:00:53:01:02', '00:00-5e:00:53:01',
+    '0:00:5e:00:53:01', '00:00:5g:00:53:01',
+  ]) {
+    assert.throws(() => parseMAC(bad), RangeError, undefined, bad);
+  }
+});
@@ -0,0 +1,82 @@
+import {assert, describe, test} from 'vitest';
+import {BitReader} from '../src/bitReader.ts';
+import {DataViewReader} from '../src/reader.ts';
+
+describe('BitReader', () => {
+  test('msb first', () => {
+    const r = new DataViewReader(new Uint8Array([
+      0b10110011, 0b01011100, 0xff,
+    ]));
+    const b = new BitReader(r);
+    assert.equal(b.reader, r);
+    assert.equal(b.lsbFirst, false);
+    assert.equal(b.aligned, true);
+    assert.equal(b.readBit(), 1);
+    assert.equal(b.bitsLeft, 7);
+    assert.equal(r.offset, 1);
+    assert.equal(b.readBits(3), 0b011);
+    assert.equal(b.readBits(6), 0b001101);
+    assert.equal(b.readBits(0), 0);
+    assert.equal(b.align(), 6);
+    assert.equal(b.aligned, true);
+    assert.equal(b.readBits(8), 0xff);
+    r.complete();
+  });
+
+  test('lsb first', () => {
+    const r = new DataViewReader(new Uint8Array([0b10110011, 0b01011100]));
+    const b = new BitReader(r, {lsbFirst: true});
+    assert.equal(b.lsbFirst, true);
+    assert.equal(b.readBit(), 1);
+    assert.equal(b.readBits(3), 0b001);
+    assert.equal(b.readBits(6), 0b001011);
+    assert.equal(b.readBits(6), 0b010111);
+    assert.equal(b.aligned, true);
+  });
+
+  test('reader moved', () => {
+    const r = new DataViewReader(new Uint8Array([0xab, 0xcd, 0xef, 0x12]));
+    const b = new BitReader(r);
+    assert.equal(b.readBits(4), 0xa);
+    assert.equal(b.bitsLeft, 4);
+    assert.equal(r.u8(), 0xcd);
+    assert.equal(b.bitsLeft, 0);
+    assert.equal(b.readBits(4), 0xe);
+    assert.equal(r.peek(() => r.u8()), 0x12);
+    assert.equal(b.readBits(4), 0xf);
+  });
+
+  test('wide', () => {
+    const bytes = new Uint8Array([
+      0x01, 0x23, 0x45, 0x67, 0x89, 0xab, 0xcd, 0xef, 0x01,
+    ]);
+    const b = new BitReader(new DataViewReader(bytes));
+    assert.equal(b.readBits(4), 0);
+    assert.equal(b.readBits(53), 0x2468acf13579b);
+    b.reader.reset();
+    b.align();
+    assert.equal(b.readBigBits(72), 0x0123456789abcdef01n);
+
+    const l = new BitReader(new DataViewReader(bytes), {lsbFirst: true});
+    assert.equal(l.readBigBits(64), 0xefcdab8967452301n);
+    assert.equal(l.readBigBits(0), 0n);
+  });
+
+  test('errors', () => {
+    const b = new BitReader(new DataViewReader(new Uint8Array(1)));
+    assert.throws(() => b.readBits(-1), RangeError);
+    assert.throws(() => b.readBits(54), RangeError);
+    assert.throws(() => b.readBits(1.5), RangeError);
+    assert.throws(() => b.readBigBits(-1), RangeError);
+    assert.throws(() => b.readBigBits(NaN), RangeError);
+    assert.throws(() => b.readBits(9));
+
+    const t = new BitReader(new DataViewReader(new Uint8Array(1), {
+      allowTruncation: true,
+    }));
+    assert.isNaN(t.readBits(9));
+    assert.equal(t.reader.truncated, true);
+    assert.isNaN(t.readBit());
+    assert.equal(t.readBigBits(3), -1n);
+  });
+});
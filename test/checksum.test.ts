@@ -0,0 +1,65 @@
+import {
+  CHECKSUMS,
+  type ChecksumName,
+  checksum,
+  checksumAlgorithm,
+} from '../src/checksum.ts';
+import {assert, test} from 'vitest';
+
+const TE = new TextEncoder();
+
+test('check values', () => {
+  const cases: [ChecksumName, string | number[], number][] = [
+    ['crc32', '123456789', 0xcbf43926],
+    ['crc16ccitt', '123456789', 0x29b1],
+    ['adler32', 'Wikipedia', 0x11e60398],
+    ['fletcher16', 'abcde', 0xc8f0],
+    ['fletcher16', 'abcdef', 0x2057],
+    ['fletcher32', 'abcde', 0xf04fc729],
+    ['fletcher32', 'abcdef', 0x56502d2a],
+    ['internet', [0x00, 0x01, 0xf2, 0x03, 0xf4, 0xf5, 0xf6, 0xf7], 0x220d],
+    ['internet', [0x00, 0x01, 0xf2, 0x03, 0xf4, 0xf5, 0xf6], 0x2304],
+    ['internet', [0x00, 0x01, 0xf2, 0x03, 0xf4, 0xf5, 0xf6, 0xf7, 0x22, 0x0d], 0],
+  ];
+  for (const [name, input, expected] of cases) {
+    const bytes = (typeof input === 'string') ?
+      TE.encode(input) :
+      new Uint8Array(input);
+    assert.equal(checksum(name, bytes), expected, name);
+
+    // Same result when streamed in odd-sized pieces.
+    const c = CHECKSUMS[name].create();
+    for (let i = 0; i < bytes.length; i += 3) {
+      c.update(bytes.subarray(i, i + 3));
+    }
+    assert.equal(c.digest(), expected, `${name} streamed`);
+  }
+});
+
+test('internet checksum carries', () => {
+  const bytes = new Uint8Array(0x40000).fill(0xff);
+  assert.equal(checksum('internet', bytes), 0);
+});
+
+test('checksumAlgorithm', () => {
+  const custom = {
+    name: 'sum8',
+    size: 1,
+    create(): {update(b: Uint8Array): void; digest(): number} {
+      let sum = 0;
+      return {
+        update(b: Uint8Array): void {
+          sum = b.reduce((t, v) => (t + v) & 0xff, sum);
+        },
+        digest(): number {
+          return sum;
+        },
+      };
+    },
+  };
+  assert.equal(checksumAlgorithm(custom), custom);
+  assert.equal(checksum(custom, new Uint8Array([0xff, 2])), 1);
+  assert.equal(checksumAlgorithm('crc32'), CHECKSUMS.crc32);
+  // @ts-expect-error Unknown name.
+  assert.throws(() => checksumAlgorithm('md5'), TypeError);
+});
@@ -0,0 +1,39 @@
+import {assert, test} from 'vitest';
+import {fixedBytes, fromFixed, toFixed} from '../src/fixed.ts';
+
+const F2DOT14 = {bits: 16, fraction: 14, signed: true};
+
+test('fixedBytes', () => {
+  assert.equal(fixedBytes({bits: 32, fraction: 16}), 4);
+  assert.equal(fixedBytes({bits: 64, fraction: 64}), 8);
+  assert.throws(() => fixedBytes({bits: 12, fraction: 4}), RangeError);
+  assert.throws(() => fixedBytes({bits: 72, fraction: 4}), RangeError);
+  assert.throws(() => fixedBytes({bits: 16, fraction: 17}), RangeError);
+  assert.throws(() => fixedBytes({bits: 16, fraction: -1}), RangeError);
+  assert.throws(() => fixedBytes({bits: 16, fraction: 1.5}), RangeError);
+});
+
+test('fromFixed', () => {
+  assert.equal(fromFixed(0x7fff, F2DOT14), 1.99993896484375);
+  assert.equal(fromFixed(0xc000, F2DOT14), -1);
+  assert.equal(fromFixed(0xc000, {bits: 16, fraction: 14}), 3);
+  assert.equal(fromFixed(0xffffffffffffffffn, {
+    bits: 64, fraction: 32, signed: true,
+  }), -(2 ** -32));
+  assert.equal(fromFixed(0x8000000000000000n, {bits: 64, fraction: 63}), 1);
+});
+
+test('toFixed', () => {
+  assert.equal(toFixed(1.99993896484375, F2DOT14), 0x7fffn);
+  assert.equal(toFixed(-2, F2DOT14), 0x8000n);
+  assert.equal(toFixed(1.5, {bits: 32, fraction: 16}), 0x18000n);
+  assert.equal(toFixed(-(2 ** -32), {bits: 64, fraction: 32, signed: true}),
+    0xffffffffffffffffn);
+  assert.throws(() => toFixed(2, F2DOT14), RangeError);
+  assert.throws(() => toFixed(-2.0001, F2DOT14), RangeError);
+  assert.throws(() => toFixed(-1, {bits: 8, fraction: 0}), RangeError);
+  assert.throws(() => toFixed(256, {bits: 8, fraction: 0}), RangeError);
+  assert.throws(() => toFixed(2 ** 64, {bits: 64, fraction: 0}), RangeError);
+  assert.throws(() => toFixed(NaN, F2DOT14), RangeError);
+  assert.throws(() => toFixed(0.1, F2DOT14), /lose precision/);
+});
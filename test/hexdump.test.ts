@@ -0,0 +1,49 @@
+import {assert, test} from 'vitest';
+import {hexdump} from '../src/hexdump.ts';
+
+test('hexdump', () => {
+  const abcd = new TextEncoder().encode('abcd\n');
+  assert.equal(hexdump(new Uint8Array()), '');
+  assert.equal(
+    hexdump(abcd),
+    '00000000: 6162 6364 0a                             abcd.'
+  );
+  assert.equal(
+    hexdump(new Uint8Array(37).fill(0x41), {width: 12, group: 4}),
+    [
+      '00000000: 41414141 41414141 41414141  AAAAAAAAAAAA',
+      '0000000c: 41414141 41414141 41414141  AAAAAAAAAAAA',
+      '00000018: 41414141 41414141 41414141  AAAAAAAAAAAA',
+      '00000024: 41                          A',
+    ].join('\n')
+  );
+  assert.equal(
+    hexdump(new Uint8Array([0, 0x7f, 0x80, 0x20]), {
+      width: 2,
+      group: 0,
+      offset: 0x100,
+      maxBytes: 3,
+    }),
+    '00000100: 007f  ..\n00000102: 80    .\n... 1 more bytes'
+  );
+});
+
+test('hexdump mark', () => {
+  const stylize = (text: string, style: string): string => `<${style}:${text}>`;
+  assert.equal(
+    hexdump(new Uint8Array([0x61, 0x62, 0x63]), {mark: 1, stylize}),
+    '00000000: 61<special:62> <string:63>' +
+      '                                  a<special:b><string:c>'
+  );
+  assert.equal(
+    hexdump(new Uint8Array([0x61]), {mark: 0}),
+    '00000000: 61                                       a'
+  );
+});
+
+test('hexdump errors', () => {
+  const buf = new Uint8Array(1);
+  assert.throws(() => hexdump(buf, {width: 0}), RangeError);
+  assert.throws(() => hexdump(buf, {group: -1}), RangeError);
+  assert.throws(() => hexdump(buf, {offset: 1.5}), /Invalid hexdump offset/);
+});
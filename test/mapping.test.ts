@@ -0,0 +1,41 @@
+import {assert, describe, test} from 'vitest';
+import {enumMap, flagMap} from '../src/mapping.ts';
+import {ValidationError} from '../src/errors.ts';
+
+describe('mapping', () => {
+  test('enumMap', () => {
+    const keep = enumMap({1: 'one', 2: 'two'});
+    assert.equal(keep.kind, 'enum');
+    const k: 'one' | 'two' | number = keep.lookup(1);
+    assert.equal(k, 'one');
+    assert.equal(keep.lookup(2), 'two');
+    assert.equal(keep.lookup(3), 3);
+
+    const strict = enumMap({1: 'one'}, {unknown: 'throw'});
+    const s: 'one' = strict.lookup(1);
+    assert.equal(s, 'one');
+    assert.throws(() => strict.lookup(2), ValidationError);
+
+    const fb = enumMap({1: 'one'}, {unknown: 'fallback', fallback: 'other'});
+    const f: 'one' | 'other' = fb.lookup(7);
+    assert.equal(f, 'other');
+    assert.throws(
+      () => enumMap({1: 'one'}, {unknown: 'fallback'}),
+      /requires a fallback/
+    );
+
+    // Not confused by inherited properties.
+    assert.equal(enumMap({}).lookup(0), 0);
+  });
+
+  test('flagMap', () => {
+    const flags = flagMap({fin: 0, syn: 1, high: 63});
+    assert.equal(flags.kind, 'flags');
+    const set: Set<'fin' | 'syn' | 'high'> = flags.lookup(0x03);
+    assert.deepEqual(set, new Set(['fin', 'syn']));
+    assert.deepEqual(flags.lookup(0x04), new Set());
+    assert.deepEqual(
+      flags.lookup(0x8000000000000001n), new Set(['fin', 'high'])
+    );
+  });
+});
@@ -1,4 +1,6 @@
+import {ChecksumError, TruncationError} from '../src/errors.ts';
 import {assert, describe, test} from 'vitest';
+import {enumMap, flagMap} from '../src/mapping.ts';
 import {DataViewReader} from '../src/reader.ts';
 import {Packet} from '../src/packet.ts';
 
@@ -154,4 +156,366 @@ describe('Packet', () => {
     p.littleEndian = true;
     assert.equal(p.littleEndian, true);
   });
+
+  interface Prefixed {
+    bytes: Uint8Array;
+    ascii: string;
+    utf8: string;
+    len: number;
+  }
+
+  test('prefixed', () => {
+    const r = new DataViewReader(new Uint8Array([
+      0x01, 0x00, 0x61,
+      0x02, 0x62, 0x63,
+      0x00, 0x00, 0x00, 0x01, 0x64,
+      0x01, 0x65,
+    ]));
+    const p = new Packet<Prefixed, Prefixed>(r);
+    p.prefixedBytes('bytes', 'u16', {littleEndian: true})
+      .prefixedAscii('ascii')
+      .prefixedUtf8('utf8', 'u32', {convert: s => s.toUpperCase()})
+      .prefixedUtf8('utf8', 'u8', {temp: true})
+      .complete();
+    assert.deepEqual(p.packet as object, {
+      bytes: new Uint8Array([0x61]),
+      ascii: 'bc',
+      utf8: 'D',
+    });
+    assert.equal(p.temp.utf8, 'e');
+
+    p.reset()
+      .skip(3)
+      .prefixedBytes('bytes', 'u8', {temp: true})
+      .prefixedAscii('len', 'u32', {convert: s => s.length})
+      .prefixedBytes('bytes');
+    assert.deepEqual(p.temp.bytes, new Uint8Array([0x62, 0x63]));
+    assert.equal(p.packet.len, 1);
+    assert.deepEqual(p.packet.bytes, new Uint8Array([0x65]));
+  });
+
+  interface BitPacket {
+    version: number;
+    flag: boolean;
+    big: bigint;
+    after: number;
+  }
+
+  test('bit mode', () => {
+    const r = new DataViewReader(new Uint8Array([0x4a, 0xff, 0x12]));
+    const p = new Packet<BitPacket, BitPacket>(r);
+    assert.throws(() => p.readBits('version', 4), /Not in bit mode/);
+    assert.throws(() => p.endBits(), /Not in bit mode/);
+    p.startBits()
+      .readBits('version', 4)
+      .readFlag('flag')
+      .readFlag('flag', {temp: true})
+      .readBigBits('big', 9)
+      .readBits('after', 1, {temp: true});
+    assert.throws(() => p.startBits(), /Already in bit mode/);
+    p.endBits()
+      .u8('after')
+      .complete();
+    assert.deepEqual(p.packet, {
+      version: 4,
+      flag: true,
+      big: 0x17fn,
+      after: 0x12,
+    });
+    assert.deepEqual(p.temp as object, {
+      flag: false,
+      after: 1,
+    });
+
+    p.reset()
+      .startBits({lsbFirst: true})
+      .readBits('version', 4)
+      .endBits();
+    assert.equal(p.packet.version, 0xa);
+    assert.throws(() => p.reset().readFlag('flag'), /Not in bit mode/);
+
+    // A byte read in bit mode discards the rest of the partial byte.
+    p.reset()
+      .startBits()
+      .readBits('version', 4)
+      .u8('after')
+      .readBits('version', 4, {temp: true})
+      .endBits();
+    assert.equal(p.packet.after, 0xff);
+    assert.equal(p.temp.version, 1);
+  });
+
+  test('align', () => {
+    const r = new DataViewReader(new Uint8Array([
+      0x01, 0x00, 0x00, 0x00, 0x02, 0x00, 0x03,
+    ]));
+    const p = new Packet<{a: number; b: number; c: number}>(r);
+    p.u8('a')
+      .align(4, 0, true)
+      .u8('b')
+      .align(2, 4)
+      .u8('c')
+      .complete();
+    assert.deepEqual(p.packet, {a: 1, b: 2, c: 3});
+  });
+
+  test('sub', () => {
+    const r = new DataViewReader(new Uint8Array([
+      0x01, 0x03, 0x02, 0x03, 0x04, 0x05,
+    ]));
+    const p = new Packet<{a: number; b: number; c: number}, {len: number}>(r);
+    p.u8('a')
+      .u8('len', {temp: true})
+      .sub(p.temp.len, sr => {
+        assert.equal(sr.original.length, 3);
+        p.u16('b')
+          .skip(1)
+          .complete();
+      })
+      .u8('c')
+      .complete();
+    assert.deepEqual(p.packet, {a: 1, b: 0x0203, c: 5});
+
+    p.reset();
+    assert.throws(() => p.skip(2).sub(2, () => {
+      p.complete();
+    }), /Message overlong/);
+    assert.equal(p.offset, 4);
+  });
+
+  test('transaction', () => {
+    const r = new DataViewReader(new Uint8Array([1, 2, 3]), {
+      allowTruncation: true,
+    });
+    const p = new Packet<{a: number; b: number; c: number}, {t: number}>(r);
+    p.u8('a');
+    assert.equal(p.transaction(() => {
+      p.u8('b').u8('t', {temp: true});
+      return p.u32('c').truncated === false;
+    }), false);
+    assert.equal(p.truncated, false);
+    assert.equal(p.offset, 1);
+    assert.deepEqual(p.packet as object, {a: 1});
+    assert.deepEqual(p.temp as object, {});
+
+    assert.throws(() => p.transaction(() => {
+      p.u8('b');
+      throw new Error('Bad layout');
+    }), /Bad layout/);
+    assert.deepEqual(p.packet as object, {a: 1});
+    assert.equal(p.offset, 1);
+
+    assert.equal(p.transaction(() => {
+      p.u16('c');
+    }), true);
+    assert.deepEqual(p.packet as object, {a: 1, c: 0x0203});
+    p.complete();
+
+    p.reset().startBits();
+    assert.throws(() => p.transaction(() => true), /bit mode/);
+  });
+
+  test('enum and flags', () => {
+    const kinds = enumMap({1: 'syn', 2: 'ack'}, {unknown: 'throw'});
+    const flags = flagMap({urg: 0, psh: 1});
+    const r = new DataViewReader(new Uint8Array([
+      0x02, 0x00, 0x03, 0x01, 0x07, 0x07,
+    ]));
+    const p = new Packet<{
+      kind: 'syn' | 'ack';
+      flags: Set<'urg' | 'psh'>;
+      upper: string;
+    }, {
+      t: Set<'urg' | 'psh'>;
+    }>(r);
+    p.enum('kind', 'u8', kinds)
+      .flags('flags', 'u16', flags)
+      .enum('upper', 'u8', kinds, {convert: v => v.toUpperCase()})
+      .flags('t', 'u8', flags, {temp: true});
+    assert.deepEqual(p.packet, {
+      kind: 'ack',
+      flags: new Set(['urg', 'psh']),
+      upper: 'SYN',
+    });
+    assert.deepEqual(p.temp.t, new Set(['urg', 'psh']));
+    assert.throws(() => p.enum('kind', 'u8', kinds), /Unknown enum value: 7/);
+
+    // Truncated reads give the same sentinels as the reader, and are not
+    // stored.
+    const t = new DataViewReader(new Uint8Array([1]), {
+      allowTruncation: true,
+      trace: true,
+    });
+    const q = new Packet<{kind: 'syn' | 'ack'; flags: Set<'urg' | 'psh'>}>(t);
+    q.enum('kind', 'u16', kinds).flags('flags', 'u64', flags);
+    assert(t.truncated);
+    assert.deepEqual(q.packet as object, {});
+    assert.deepEqual(t.trace.map(e => [e.read, e.value]), [
+      ['enum', NaN],
+      ['flags', -1n],
+    ]);
+  });
+
+  test('timestamp', () => {
+    const r = new DataViewReader(new Uint8Array([
+      0x5f, 0x5e, 0x10, 0x00,
+      0x00, 0x10, 0x5e, 0x5f,
+      0x5f, 0x5e, 0x10, 0x00, 0x00, 0x01, 0xe2, 0x40,
+    ]));
+    const p = new Packet<{
+      when: Date;
+      seconds: number;
+    }, {
+      ns: bigint;
+    }>(r);
+    p.timestamp('when', 'unix32')
+      .timestamp('seconds', 'unix32', {
+        littleEndian: true,
+        convert: d => d.getTime() / 1000,
+      })
+      .timestampNs('ns', 'pcap', {temp: true});
+    assert.deepEqual(p.packet, {
+      when: new Date('2020-09-13T12:26:40Z'),
+      seconds: 1_600_000_000,
+    });
+    assert.equal(p.temp.ns, 1_600_000_000_123_456_000n);
+  });
+
+  test('addresses', () => {
+    const r = new DataViewReader(new Uint8Array([
+      192, 0, 2, 1,
+      0x20, 0x01, 0x0d, 0xb8, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 1,
+      0, 0, 0x5e, 0, 0x53, 0x01,
+    ]));
+    const p = new Packet<{
+      src: string;
+      dst: string;
+    }, {
+      hw: string;
+    }>(r);
+    p.ipv4('src')
+      .ipv6('dst', {convert: s => `[${s}]`})
+      .mac('hw', {temp: true});
+    assert.deepEqual(p.packet, {src: '192.0.2.1', dst: '[2001:db8::1]'});
+    assert.equal(p.temp.hw, '00:00:5e:00:53:01');
+  });
+
+  test('checksum', () => {
+    const r = new DataViewReader(new Uint8Array([
+      0x31, 0x32, 0x33, 0x34, 0x35, 0x36, 0x37, 0x38, 0x39,
+      0x26, 0x39, 0xf4, 0xcb,
+      0x00, 0x01, 0xf2, 0x03, 0xf4, 0xf5, 0xf6, 0xf7,
+      0x22, 0x0d,
+      0xff, 0x00,
+    ]));
+    const p = new Packet<{
+      digits: string;
+      crc: number;
+    }, {
+      sum: number;
+    }>(r);
+    p.beginChecksum()
+      .ascii('digits', 9)
+      .verifyChecksum('crc', 'crc32', {littleEndian: true})
+      .beginChecksum()
+      .skip(8)
+      .endChecksum()
+      .verifyChecksum('sum', 'internet', {temp: true});
+    assert.deepEqual(p.packet, {digits: '123456789', crc: 0xcbf43926});
+    assert.equal(p.temp.sum, 0x220d);
+    assert.throws(
+      () => p.verifyChecksum('crc', 'crc32'),
+      /No checksum region/
+    );
+    assert.throws(
+      () => p.beginChecksum().verifyChecksum('crc', 'fletcher16'),
+      ChecksumError
+    );
+
+    // Failures leave the region open.
+    p.reset()
+      .beginChecksum()
+      .skip(9);
+    // @ts-expect-error Unknown algorithm.
+    assert.throws(() => p.verifyChecksum('crc', 'md5'), TypeError);
+    const cp = r.checkpoint();
+    assert.throws(() => p.verifyChecksum('crc', 'internet'), ChecksumError);
+    r.restore(cp);
+    p.verifyChecksum('crc', 'crc32', {littleEndian: true});
+    assert.equal(p.packet.crc, 0xcbf43926);
+
+    p.reset().beginChecksum();
+    assert.equal(p.transaction(() => {
+      p.endChecksum();
+      return false;
+    }), false);
+    p.skip(9).verifyChecksum('crc', 'crc32', {littleEndian: true});
+    assert.equal(p.packet.crc, 0xcbf43926);
+  });
+
+  test('trace', () => {
+    const r = new DataViewReader(
+      new Uint8Array([1, 1, 3, 0, 4, 5, 6, 7, 8]),
+      {trace: true}
+    );
+    const p = new Packet<{
+      a: number;
+      b: Uint8Array;
+      c: number[];
+      d: number;
+      e: 'x';
+      f: boolean;
+      g: Uint8Array;
+    }>(r);
+    p.u8('a')
+      .prefixedBytes('b', 'u8')
+      .skip(1)
+      .while('c', i => i < 2, () => r.u8())
+      .sub(2, sr => {
+        p.u16('d');
+        assert.equal(sr.trace[0].name, 'd');
+      })
+      .constant('e', 'x')
+      .bits({from: 'a', to: 'f', start: 0})
+      .unused('g');
+    assert.deepEqual(r.trace.map(e => [e.read, e.name, e.start, e.length]), [
+      ['u8', 'a', 0, 1],
+      ['prefixedBytes', 'b', 1, 2],
+      ['skip', undefined, 3, 1],
+      ['while', 'c', 4, 2],
+      ['sub', undefined, 6, 2],
+      ['constant', 'e', 8, 0],
+      ['bits', 'f', 8, 0],
+      ['unused', 'g', 8, 0],
+    ]);
+    assert.deepEqual(r.trace[1].value, new Uint8Array([3]));
+    assert.deepEqual(r.trace[3].value, [4, 5]);
+    assert.deepEqual(r.trace[3].children.map(e => e.read), ['u8', 'u8']);
+    assert.deepEqual(r.trace[4].children.map(e => [e.name, e.start]), [
+      ['d', 6],
+    ]);
+    assert.equal(r.trace[5].value, 'x');
+    assert.equal(r.trace[6].value, true);
+    assert.deepEqual(r.trace[7].value, new Uint8Array([8]));
+
+    assert.throws(() => p.transaction(() => p.u16('a')), /truncated/);
+    assert.equal(r.trace.length, 8);
+  });
+
+  test('error context', () => {
+    const r = new DataViewReader(new Uint8Array([1, 2, 3]));
+    const p = new Packet<{a: number; c: number[]; d: number}>(r);
+    p.u8('a');
+    const err = assert.throws(
+      () => p.times('c', 3, () => r.u8()),
+      TruncationError
+    ) as unknown as TruncationError;
+    assert.equal(err.path, 'c[2]');
+    assert.equal(err.kind, 'times');
+
+    p.reset().skip(1);
+    assert.throws(() => p.sub(2, () => {
+      p.u16('d').u8('a');
+    }), /\(reading a: u8\)$/);
+  });
 });
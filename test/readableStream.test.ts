@@ -1,3 +1,4 @@
+import {CHECKSUMS, checksum} from '../src/checksum.ts';
 import {CUSTOM_INSPECT, type InspectOptions} from '../src/inspect.ts';
 import {assert, expect, test} from 'vitest';
 import {DataViewReadableStream} from '../src/readableStream.ts';
@@ -203,11 +204,24 @@ test('writer custom inspector', async () => {
 
   const w2 = await DataViewReadableStream.create();
   w2.u8(13);
-  assert.equal(w2[CUSTOM_INSPECT](1, opts), 'DataViewReadableStream [0x0d]');
+  assert.equal(w2[CUSTOM_INSPECT](1, opts), `DataViewReadableStream [
+  00000000: 0d                                       .
+]`);
 
   const w3 = await DataViewReadableStream.create({chunkSize: 8});
   w3.ascii('abc').u8(14);
-  assert.equal(w3[CUSTOM_INSPECT](1, opts), 'DataViewReadableStream [0x0e]');
+  assert.equal(w3[CUSTOM_INSPECT](1, opts), `DataViewReadableStream [
+  00000000: 0e                                       .
+]`);
+
+  w3.u8(15);
+  opts.colors = true;
+  opts.stylize = (a: string, style: string): string => (
+    (style === 'special') ? `[${a}]` : a
+  );
+  assert.equal(w3[CUSTOM_INSPECT](1, opts), `[DataViewReadableStream] [
+  00000000: 0e[0f]                                     .[.]
+]`);
 });
 
 test('cancel in startup', async () => {
@@ -233,3 +247,250 @@ test('littleEndian switching', async () => {
     [2, 0, 3, 0, 0, 4],
   ]);
 });
+
+test('quicVarint', async () => {
+  const w = await DataViewReadableStream.create({littleEndian: true});
+  w.quicVarint(151288809941952652n)
+    .quicVarint(494878333)
+    .quicVarint(15293)
+    .quicVarint(37)
+    .quicVarint(37, 2)
+    .quicVarint(1, 8)
+    .quicVarint(0x3fffffff)
+    .quicVarint(0x40000000)
+    .quicVarint(0x3fff, 4)
+    .end();
+  assert.deepEqual(await w.read(), new Uint8Array([
+    0xc2, 0x19, 0x7c, 0x5e, 0xff, 0x14, 0xe8, 0x8c,
+    0x9d, 0x7f, 0x3e, 0x7d,
+    0x7b, 0xbd,
+    0x25,
+    0x40, 0x25,
+    0xc0, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x01,
+    0xbf, 0xff, 0xff, 0xff,
+    0xc0, 0x00, 0x00, 0x00, 0x40, 0x00, 0x00, 0x00,
+    0x80, 0x00, 0x3f, 0xff,
+  ]));
+
+  const w2 = await DataViewReadableStream.create();
+  assert.throws(() => w2.quicVarint(-1), RangeError);
+  assert.throws(() => w2.quicVarint(1.5), RangeError);
+  assert.throws(() => w2.quicVarint(0x4000000000000000n), RangeError);
+  assert.throws(() => w2.quicVarint(64, 1), RangeError);
+  assert.throws(() => w2.quicVarint(0x4000, 2), RangeError);
+  assert.throws(
+    () => w2.quicVarint(1, 3 as 1),
+    /Invalid QUIC varint size: 3/
+  );
+});
+
+test('prefixed', async () => {
+  const w = await DataViewReadableStream.create({littleEndian: true});
+  w.prefixedBytes(new Uint8Array([1, 2]))
+    .prefixedAscii('ab', 'u16')
+    .prefixedUtf8('\u00e9', 'u32', false)
+    .end();
+  assert.deepEqual(await w.read(), new Uint8Array([
+    0x02, 0x01, 0x02,
+    0x02, 0x00, 0x61, 0x62,
+    0x00, 0x00, 0x00, 0x02, 0xc3, 0xa9,
+  ]));
+
+  const w2 = await DataViewReadableStream.create();
+  assert.throws(() => w2.prefixedBytes(new Uint8Array(256)), RangeError);
+  assert.throws(() => w2.prefixedAscii('\u0100'), RangeError);
+});
+
+test('arbitrary width', async () => {
+  const w = await DataViewReadableStream.create({littleEndian: true});
+  w.uint(0x010203, 3, false)
+    .uint(0x010203, 3)
+    .int(-2, 3)
+    .uint(0xffffffffffffffn, 7)
+    .int(-0x80000000000000n, 7, false)
+    .int(0x7fffffffffff, 6)
+    .end();
+  assert.deepEqual(await w.read(), new Uint8Array([
+    0x01, 0x02, 0x03,
+    0x03, 0x02, 0x01,
+    0xfe, 0xff, 0xff,
+    0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff,
+    0x80, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00,
+    0xff, 0xff, 0xff, 0xff, 0xff, 0x7f,
+  ]));
+
+  const w2 = await DataViewReadableStream.create();
+  assert.throws(() => w2.uint(1, 0), RangeError);
+  assert.throws(() => w2.uint(1, 9), RangeError);
+  assert.throws(() => w2.uint(0x1000000, 3), RangeError);
+  assert.throws(() => w2.uint(-1, 3), RangeError);
+  assert.throws(() => w2.int(0x800000, 3), RangeError);
+  assert.throws(() => w2.int(-0x800001, 3), RangeError);
+  assert.throws(() => w2.int(1.5, 3), RangeError);
+});
+
+test('utf16', async () => {
+  const w = await DataViewReadableStream.create();
+  w.utf16('ab')
+    .utf16('c', true)
+    .utf16('d', false, true)
+    .utf16('e', true, true)
+    .utf16('\ud800')
+    .end();
+  assert.deepEqual(await w.read(), new Uint8Array([
+    0x00, 0x61, 0x00, 0x62,
+    0x63, 0x00,
+    0xfe, 0xff, 0x00, 0x64,
+    0xff, 0xfe, 0x65, 0x00,
+    0xd8, 0x00,
+  ]));
+});
+
+test('padding', async () => {
+  const w = await DataViewReadableStream.create({chunkSize: 8});
+  assert.equal(w.length, 0);
+  w.u8(1)
+    .align(4)
+    .u8(2)
+    .pad(2, 0xff)
+    .u8(3)
+    .align(8)
+    .u8(4)
+    .align(4)
+    .u8(5)
+    .align(4, 0, 0xee)
+    .align(4, 1)
+    .pad(0);
+  assert.equal(w.length, 17);
+  w.end();
+  assert.deepEqual(await w.read(), new Uint8Array([
+    0x01, 0x00, 0x00, 0x00,
+    0x02, 0xff, 0xff, 0x03,
+    0x04, 0x00, 0x00, 0x00,
+    0x05, 0xee, 0xee, 0xee,
+    0x00,
+  ]));
+
+  const w2 = await DataViewReadableStream.create();
+  assert.throws(() => w2.align(0), RangeError);
+  assert.throws(() => w2.pad(-1), RangeError);
+  assert.throws(() => w2.pad(1, 256), RangeError);
+});
+
+test('typedArray', async () => {
+  const w = await DataViewReadableStream.create();
+  w.typedArray(new Int16Array([1, -2]))
+    .typedArray(new Uint16Array([0x0102]), true)
+    .typedArray(new Float32Array([1]))
+    .typedArray(new BigUint64Array([3n]))
+    .end();
+  assert.deepEqual(await w.read(), new Uint8Array([
+    0x00, 0x01, 0xff, 0xfe,
+    0x02, 0x01,
+    0x3f, 0x80, 0x00, 0x00,
+    0, 0, 0, 0, 0, 0, 0, 3,
+  ]));
+});
+
+test('fixed', async () => {
+  const w = await DataViewReadableStream.create();
+  const F2DOT14 = {bits: 16, fraction: 14, signed: true};
+  w.fixed(1.99993896484375, F2DOT14)
+    .fixed(-1, F2DOT14, true)
+    .fixed(1.5, {bits: 24, fraction: 8})
+    .end();
+  assert.deepEqual(await w.read(), new Uint8Array([
+    0x7f, 0xff,
+    0x00, 0xc0,
+    0x00, 0x01, 0x80,
+  ]));
+  assert.throws(() => w.fixed(2, F2DOT14), RangeError);
+  assert.throws(() => w.fixed(0.1, F2DOT14), RangeError);
+  assert.throws(() => w.fixed(1, {bits: 4, fraction: 0}), RangeError);
+});
+
+test('timestamp', async () => {
+  const w = await DataViewReadableStream.create();
+  w.timestamp(new Date('2020-09-13T12:26:40Z'), 'unix32')
+    .timestamp(1_600_000_000_000_000_000n, 'filetime', true)
+    .end();
+  assert.deepEqual(await w.read(), new Uint8Array([
+    0x5f, 0x5e, 0x10, 0x00,
+    0x00, 0x80, 0xa6, 0x21, 0xc9, 0x89, 0xd6, 0x01,
+  ]));
+  assert.throws(() => w.timestamp(new Date(1), 'unix32'), RangeError);
+});
+
+test('addresses', async () => {
+  const w = await DataViewReadableStream.create();
+  w.ipv4('192.0.2.1')
+    .ipv6('2001:db8::1')
+    .mac('00-00-5E-00-53-01')
+    .end();
+  assert.deepEqual(await w.read(), new Uint8Array([
+    192, 0, 2, 1,
+    0x20, 0x01, 0x0d, 0xb8, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 1,
+    0, 0, 0x5e, 0, 0x53, 0x01,
+  ]));
+  assert.throws(() => w.ipv4('192.0.2'), RangeError);
+  assert.throws(() => w.ipv6('2001:db8::1::'), RangeError);
+  assert.throws(() => w.mac('00:00'), RangeError);
+});
+
+test('uuid', async () => {
+  const w = await DataViewReadableStream.create();
+  w.uuid('f81d4fae-7dec-11d0-a765-00a0c91e6bf6')
+    .uuid('F81D4FAE-7DEC-11D0-A765-00A0C91E6BF6', 'microsoft')
+    .end();
+  assert.deepEqual(await w.read(), new Uint8Array([
+    0xf8, 0x1d, 0x4f, 0xae, 0x7d, 0xec, 0x11, 0xd0,
+    0xa7, 0x65, 0x00, 0xa0, 0xc9, 0x1e, 0x6b, 0xf6,
+    0xae, 0x4f, 0x1d, 0xf8, 0xec, 0x7d, 0xd0, 0x11,
+    0xa7, 0x65, 0x00, 0xa0, 0xc9, 0x1e, 0x6b, 0xf6,
+  ]));
+  assert.throws(() => w.uuid('f81d4fae'), RangeError);
+});
+
+test('checksum', async () => {
+  const TE = new TextEncoder();
+  const w = await DataViewReadableStream.create({chunkSize: 8});
+  w.u8(0xff)
+    .beginChecksum('crc32')
+    .ascii('123')
+    .beginChecksum('internet')
+    .u16(0x0001)
+    .u32(0xf203f4f5)
+    .u16(0xf6f7)
+    .endChecksum()
+    .bytes(TE.encode('abcdefghijklmnopqrstuvwxyz'))
+    .endChecksum(4, true)
+    .beginChecksum(CHECKSUMS.fletcher16)
+    .endChecksum(4)
+    .end();
+  const buf = await w.read();
+  assert.deepEqual(buf.subarray(0, 14), new Uint8Array([
+    0xff,
+    0x31, 0x32, 0x33,
+    0x00, 0x01, 0xf2, 0x03, 0xf4, 0xf5, 0xf6, 0xf7,
+    0x22, 0x0d,
+  ]));
+  const dv = new DataView(buf.buffer, buf.byteOffset, buf.byteLength);
+  assert.equal(
+    dv.getUint32(40, true),
+    checksum('crc32', buf.subarray(1, 40))
+  );
+  assert.deepEqual(buf.subarray(44), new Uint8Array(4));
+
+  const x = await DataViewReadableStream.create();
+  assert.throws(() => x.endChecksum(), /No checksum region/);
+  x.beginChecksum('crc32').u8(1);
+  assert.throws(() => x.endChecksum(1), RangeError);
+  // The region is still open after the failure.
+  x.endChecksum().end();
+  assert.deepEqual(
+    await x.read(),
+    new Uint8Array([1, 0xa5, 0x05, 0xdf, 0x1b])
+  );
+  // @ts-expect-error Unknown algorithm.
+  assert.throws(() => x.beginChecksum('md5'), TypeError);
+});
@@ -1,7 +1,16 @@
 import {CUSTOM_INSPECT, type InspectOptions} from '../src/inspect.ts';
+import {
+  ChecksumError,
+  ExtraBytesError,
+  ReadError,
+  TruncationError,
+  UTF8Error,
+  ValidationError,
+  VarintError,
+} from '../src/errors.ts';
 import {DataViewReader, type Temp} from '../src/reader.ts';
-import {ExtraBytesError, TruncationError} from '../src/errors.ts';
 import {assert, describe, test} from 'vitest';
+import {enumMap, flagMap} from '../src/mapping.ts';
 import {withNo16} from './utils.ts';
 
 describe('reader', () => {
@@ -109,8 +118,24 @@ describe('reader', () => {
       return String(a);
     }
 
-    assert.equal(d[CUSTOM_INSPECT](0, opts, inspect), 'DataViewReader { length: 4, offset: 0, unused: 0x61626364}');
+    assert.equal(d[CUSTOM_INSPECT](0, opts, inspect), 'DataViewReader { length: 4, offset: 0 }\n  00000000: 6162 6364                                abcd');
     assert.equal(d[CUSTOM_INSPECT](-1, opts, inspect), '[DataViewReader]');
+
+    const long = new DataViewReader(new Uint8Array(64), {offset: 40});
+    opts.maxArrayLength = 40;
+    opts.colors = true;
+    opts.stylize = (a: string, style: string): string => (
+      (style === 'special') ? `[${a}]` : a
+    );
+    assert.equal(long[CUSTOM_INSPECT](0, opts, inspect), `[DataViewReader] { length: 64, offset: 40 }
+  00000010: 0000 0000 0000 0000 0000 0000 0000 0000  ................
+  00000020: 0000 0000 0000 0000 [00]00 0000 0000 0000  ........[.].......
+  00000030: 0000 0000 0000 0000                      ........
+  ... 8 more bytes`);
+    assert.equal(
+      new DataViewReader(new Uint8Array())[CUSTOM_INSPECT](0, opts, inspect),
+      '[DataViewReader] { length: 0, offset: 0 }'
+    );
   });
 
   test('times', () => {
@@ -180,4 +205,970 @@ describe('reader', () => {
       ascii: 'def',
     });
   });
+
+  test('leb128', () => {
+    const r = new DataViewReader(new Uint8Array([
+      0x00,
+      0x7f,
+      0xe5, 0x8e, 0x26,
+      0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0x01,
+    ]));
+    assert.equal(r.uleb128(), 0);
+    assert.equal(r.uleb128(), 127);
+    assert.equal(r.uleb128(), 624485);
+    assert.equal(r.uleb128(), 0xffffffffffffffffn);
+    r.complete();
+
+    r.reset();
+    assert.equal(r.sleb128(), 0);
+    assert.equal(r.sleb128(), -1);
+    assert.equal(r.sleb128(), 624485);
+
+    const s = new DataViewReader(new Uint8Array([
+      0xc0, 0xbb, 0x78,
+      0x3f,
+      0xc0, 0x00,
+      0x80, 0x80, 0x80, 0x80, 0x80, 0x80, 0x80, 0x80, 0x80, 0x7f,
+      0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0x00,
+    ]));
+    assert.equal(s.sleb128(), -123456);
+    assert.equal(s.sleb128(), 63);
+    assert.equal(s.sleb128(), 64);
+    assert.equal(s.sleb128(), -0x8000000000000000n);
+    assert.equal(s.sleb128(), 0x7fffffffffffffffn);
+    s.complete();
+
+    const z = new DataViewReader(new Uint8Array([
+      0x00, 0x01, 0x02, 0x03, 0xfe, 0xff, 0x03,
+      0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0x01,
+    ]));
+    assert.equal(z.zigzag(), 0);
+    assert.equal(z.zigzag(), -1);
+    assert.equal(z.zigzag(), 1);
+    assert.equal(z.zigzag(), -2);
+    assert.equal(z.zigzag(), 0x7fff);
+    assert.equal(z.zigzag(), -0x8000000000000000n);
+    z.complete();
+  });
+
+  test('leb128 errors', () => {
+    const bad = [
+      [0x80, 0x00],
+      [0xff, 0x00],
+      [0x80, 0x80, 0x80, 0x80, 0x80, 0x80, 0x80, 0x80, 0x80, 0x02],
+      [0x80, 0x80, 0x80, 0x80, 0x80, 0x80, 0x80, 0x80, 0x80, 0x80, 0x01],
+    ];
+    for (const b of bad) {
+      const r = new DataViewReader(new Uint8Array(b));
+      assert.throws(() => r.uleb128(), VarintError);
+    }
+
+    const sbad = [
+      [0x80, 0x00],
+      [0xff, 0x7f],
+      [0x80, 0x80, 0x80, 0x80, 0x80, 0x80, 0x80, 0x80, 0x80, 0x01],
+      [0x80, 0x80, 0x80, 0x80, 0x80, 0x80, 0x80, 0x80, 0x80, 0x80, 0x01],
+    ];
+    for (const b of sbad) {
+      const r = new DataViewReader(new Uint8Array(b));
+      assert.throws(() => r.sleb128(), VarintError);
+    }
+
+    const r = new DataViewReader(new Uint8Array([0x80, 0x00]));
+    assert.throws(() => r.uleb128(), /overlong encoding \(2 bytes at 0\)/);
+    const t = new DataViewReader(new Uint8Array([0x80]));
+    assert.throws(() => t.uleb128(), TruncationError);
+
+    const u = new DataViewReader(new Uint8Array([0x80, 0x80]), {
+      allowTruncation: true,
+    });
+    assert.isNaN(u.uleb128());
+    assert.equal(u.truncated, true);
+    assert.isNaN(u.sleb128());
+    assert.isNaN(u.zigzag());
+  });
+
+  test('quicVarint', () => {
+    const r = new DataViewReader(new Uint8Array([
+      0xc2, 0x19, 0x7c, 0x5e, 0xff, 0x14, 0xe8, 0x8c,
+      0x9d, 0x7f, 0x3e, 0x7d,
+      0x7b, 0xbd,
+      0x25,
+      0x40, 0x25,
+      0xc0, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x01,
+      0x80,
+    ]), {allowTruncation: true, littleEndian: true});
+    assert.equal(r.quicVarint(), 151288809941952652n);
+    assert.equal(r.quicVarint(), 494878333);
+    assert.equal(r.quicVarint(), 15293);
+    assert.equal(r.quicVarint(), 37);
+    assert.equal(r.quicVarint(), 37);
+    assert.equal(r.quicVarint(), 1);
+    assert.isNaN(r.quicVarint());
+    assert.equal(r.truncated, true);
+    assert.isNaN(r.quicVarint());
+  });
+
+  test('cstring', () => {
+    const r = new DataViewReader(new Uint8Array([
+      0x61, 0x62, 0x00,
+      0x00,
+      0x63, 0x64, 0x0a,
+      0x65, 0x66, 0x67, 0x00,
+      0x68, 0x69,
+    ]));
+    assert.equal(r.cstring(), 'ab');
+    assert.equal(r.offset, 3);
+    assert.equal(r.cstring(), '');
+    assert.equal(r.cstring({terminator: 0x0a, consume: false}), 'cd');
+    assert.equal(r.offset, 6);
+    assert.equal(r.u8(), 0x0a);
+    assert.equal(r.cstring({maxLength: 2}), 'ef');
+    assert.equal(r.cstring({maxLength: 2}), 'g');
+    assert.equal(r.offset, 11);
+    assert.equal(r.cstring({maxLength: 2}), 'hi');
+    r.complete();
+
+    const u = new DataViewReader(new Uint8Array([0x61, 0x62]));
+    assert.throws(() => u.cstring(), TruncationError);
+    u.reset();
+    assert.throws(() => u.cstring({maxLength: 3}), TruncationError);
+
+    assert.throws(() => r.cstring({terminator: -1}), RangeError);
+    assert.throws(() => r.cstring({terminator: 256}), RangeError);
+    assert.throws(() => r.cstring({terminator: 1.5}), RangeError);
+    assert.throws(
+      () => r.cstring({maxLength: -1}),
+      RangeError,
+      /Invalid read size/
+    );
+    assert.throws(
+      () => r.cstring({maxLength: NaN}),
+      RangeError,
+      /Invalid read size/
+    );
+
+    const t = new DataViewReader(new Uint8Array([0x61, 0x62]), {
+      allowTruncation: true,
+    });
+    assert.equal(t.cstring(), '');
+    assert.equal(t.truncated, true);
+    assert.equal(t.cstring(), '');
+  });
+
+  test('prefixed', () => {
+    const r = new DataViewReader(new Uint8Array([
+      0x02, 0x61, 0x62,
+      0x00, 0x01, 0x63,
+      0x01, 0x00, 0x00, 0x00, 0x64,
+      0x02, 0xc3, 0xa9,
+      0x05, 0x01,
+    ]), {allowTruncation: true});
+    assert.deepEqual(r.prefixedBytes(), new Uint8Array([0x61, 0x62]));
+    assert.equal(r.prefixedAscii('u16'), 'c');
+    assert.equal(r.prefixedAscii('u32', true), 'd');
+    assert.equal(r.prefixedUtf8(), '\u00e9');
+    assert.deepEqual(r.prefixedBytes(), new Uint8Array(0));
+    assert.equal(r.truncated, true);
+    assert.deepEqual(r.prefixedBytes('u16'), new Uint8Array(0));
+    assert.equal(r.prefixedUtf8('u32'), '');
+  });
+
+  test('arbitrary width', () => {
+    const buf = new Uint8Array([
+      0xff, 0xfe, 0xfd, 0xfc, 0xfb, 0xfa, 0xf9, 0xf8,
+    ]);
+    const r = new DataViewReader(buf);
+    assert.equal(r.uint(3), 0xfffefd);
+    assert.equal(r.uint(3, true), 0xfafbfc);
+    r.reset();
+    assert.equal(r.int(3), -259);
+    assert.equal(r.int(1), -4);
+    r.reset();
+    assert.equal(r.uint(6), 0xfffefdfcfbfa);
+    r.reset();
+    assert.equal(r.int(6, true), -0x050403020101);
+    r.reset();
+    assert.equal(r.uint(7), 0xfffefdfcfbfaf9n);
+    r.reset();
+    assert.equal(r.uint(8, true), 0xf8f9fafbfcfdfeffn);
+    r.reset();
+    assert.equal(r.int(7), -0x10203040507n);
+    r.reset();
+    assert.equal(r.int(2), -2);
+    assert.equal(r.int(5), -0x0203040507);
+
+    assert.throws(() => r.uint(0), RangeError);
+    assert.throws(() => r.uint(9), RangeError);
+    assert.throws(() => r.int(2.5), RangeError);
+
+    const t = new DataViewReader(new Uint8Array(2), {allowTruncation: true});
+    assert.isNaN(t.uint(3));
+    assert.equal(t.uint(7), -1n);
+    assert.isNaN(t.int(3));
+    assert.equal(t.int(8), DataViewReader.BAD_I64);
+  });
+
+  test('struct arbitrary width', () => {
+    const r = new DataViewReader(new Uint8Array([
+      0x00, 0x00, 0x01,
+      0xff, 0xff, 0xff,
+      0x01, 0x00, 0x00, 0x00, 0x00, 0x00,
+      0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x01,
+      0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff,
+      0x00, 0x00, 0x00, 0x00, 0x02,
+      0xff, 0xff, 0xff, 0xff, 0xfe,
+      0x00, 0x00, 0x00, 0x00, 0x00, 0x03,
+    ]));
+    assert.deepEqual(r.struct({
+      u24: {read: 'u24'},
+      i24: {read: 'i24'},
+      u48: {read: 'u48', littleEndian: true},
+      u56: {read: 'u56'},
+      i56: {read: 'i56'},
+      u40: {read: 'u40'},
+      i40: {read: 'i40'},
+      i48: {read: 'i48'},
+    }), {
+      u24: 1,
+      i24: -1,
+      u48: 1,
+      u56: 1n,
+      i56: -1n,
+      u40: 2,
+      i40: -2,
+      i48: 3,
+    });
+    r.complete();
+  });
+
+  test('utf16 and other encodings', () => {
+    const r = new DataViewReader(new Uint8Array([
+      0x00, 0x61, 0x00, 0x62,
+      0xff, 0xfe, 0x63, 0x00,
+      0xfe, 0xff, 0x00, 0x64,
+      0x65, 0x00,
+      0xc1, 0xc2,
+      0xd8, 0x00,
+    ]));
+    assert.equal(r.utf16(4), 'ab');
+    assert.equal(r.utf16(4), 'c');
+    assert.equal(r.utf16(4, true), 'd');
+    assert.equal(r.utf16(2, true), 'e');
+    assert.equal(r.string(2, 'koi8-r'), '\u0430\u0431');
+    assert.throws(() => r.utf16(2), UTF8Error);
+    r.reset();
+    assert.throws(() => r.string(2, 'no-such-encoding'), RangeError);
+
+    const i = new DataViewReader(new Uint8Array([0xd8, 0x00]), {
+      ignoreUTF8errors: true,
+    });
+    assert.equal(i.utf16(2), '\ufffd');
+
+    const le = new DataViewReader(new Uint8Array([
+      0x61, 0x00,
+      0x02, 0x00, 0x62, 0x00,
+      0x01, 0x63,
+    ]), {littleEndian: true});
+    assert.deepEqual(le.struct({
+      a: {read: 'utf16', length: () => 2},
+      _len: {read: 'u16'},
+      b: {read: 'utf16', length: t => t.len as number, convert: s => [s]},
+      c: {read: 'string', encoding: 'latin1', length: () => 2},
+      d: {read: 'string', encoding: 'ascii', length: () => 0, convert: s => s.length},
+    }), {
+      a: 'a',
+      b: ['b'],
+      c: '\u0001c',
+      d: 0,
+    });
+  });
+
+  test('align', () => {
+    const r = new DataViewReader(new Uint8Array([
+      0x01, 0x00, 0x00, 0x00,
+      0x02, 0x03, 0x00, 0x00,
+      0x04, 0x05, 0x06, 0x07,
+    ]));
+    assert.equal(r.align(4), 0);
+    r.u8();
+    assert.equal(r.align(4, 0, true), 3);
+    assert.equal(r.offset, 4);
+    r.u8();
+    assert.equal(r.align(2, 1), 0);
+    assert.equal(r.align(4, 1), 0);
+    r.u8();
+    assert.equal(r.align(4, 8), 2);
+    assert.equal(r.offset, 8);
+    r.u8();
+    assert.throws(() => r.align(4, 0, true), /Non-zero padding at 9/);
+    assert.throws(() => r.align(0), RangeError);
+    assert.throws(() => r.align(1.5), RangeError);
+
+    const t = new DataViewReader(new Uint8Array([1, 2]), {
+      allowTruncation: true,
+    });
+    t.u8();
+    assert.equal(t.align(4, 0, true), 3);
+    assert.equal(t.truncated, true);
+  });
+
+  test('struct padding', () => {
+    const r = new DataViewReader(new Uint8Array([
+      0xff,
+      0x01, 0x00, 0x00, 0x00,
+      0x02, 0x00,
+      0x03, 0x04,
+      0x05,
+    ]));
+    r.u8();
+    const desc = {
+      a: {read: 'u8'},
+      _align: {read: 'align', alignment: 4, zero: true},
+      b: {read: 'u8'},
+      pad: {read: 'pad', length: 1},
+      c: {read: 'u8'},
+      pad2: {read: 'pad', length: () => 1},
+      d: {read: 'u8'},
+    } as const;
+    const res: {a: number; b: number; c: number; d: number} = r.struct(desc);
+    assert.deepEqual(res, {a: 1, b: 2, c: 3, d: 5});
+    r.complete();
+
+    r.seek(1);
+    assert.throws(() => r.struct({
+      a: {read: 'u8'},
+      pad: {read: 'pad', length: 4, zero: true},
+    }), /Non-zero padding at 5/);
+  });
+
+  test('sub', () => {
+    const r = new DataViewReader(new Uint8Array([
+      0x01, 0x02, 0x03, 0x04, 0x05, 0x06,
+    ]), {littleEndian: true});
+    assert.equal(r.u8(), 1);
+    const s = r.sub(3);
+    assert.equal(r.offset, 4);
+    assert.equal(s.littleEndian, true);
+    assert.equal(s.offset, 0);
+    assert.equal(s.u16(), 0x0302);
+    assert.throws(() => s.complete(), ExtraBytesError);
+    assert.throws(() => s.u16(), TruncationError);
+    assert.equal(r.u8(), 5);
+    assert.throws(() => r.sub(2), TruncationError);
+
+    const t = new DataViewReader(new Uint8Array([1, 2, 3]), {
+      allowTruncation: true,
+    });
+    const ts = t.sub(5);
+    assert.equal(t.truncated, true);
+    assert.equal(ts.allowTruncation, true);
+    assert.equal(ts.u16(), 0x0102);
+    assert.equal(ts.truncated, false);
+    assert.isNaN(ts.u16());
+    assert.equal(ts.truncated, true);
+  });
+
+  test('peek', () => {
+    const r = new DataViewReader(new Uint8Array([0x01, 0x02, 0x03]));
+    assert.equal(r.peek(() => r.u8()), 1);
+    assert.equal(r.peek(pr => pr.u16()), 0x0102);
+    assert.equal(r.offset, 0);
+    assert.throws(() => r.peek(() => r.u32()), TruncationError);
+    assert.equal(r.offset, 0);
+    assert.deepEqual(r.peek(() => r.bytes(3)), new Uint8Array([1, 2, 3]));
+    assert.equal(r.u8(), 1);
+
+    const t = new DataViewReader(new Uint8Array([1, 2]), {
+      allowTruncation: true,
+    });
+    assert.isNaN(t.peek(() => t.u32()));
+    assert.equal(t.truncated, false);
+    assert.equal(t.offset, 0);
+    assert.equal(t.u16(), 0x0102);
+  });
+
+  test('checkpoint', () => {
+    const r = new DataViewReader(new Uint8Array([1, 2, 3]), {
+      allowTruncation: true,
+    });
+    const cp = r.checkpoint();
+    assert.deepEqual(cp, {offset: 0, truncated: false});
+    assert.isNaN(r.u32());
+    assert.equal(r.truncated, true);
+    r.restore(cp);
+    assert.equal(r.truncated, false);
+    assert.equal(r.u8(), 1);
+    r.restore(cp);
+    assert.equal(r.u16(), 0x0102);
+
+    const other = new DataViewReader(new Uint8Array(0));
+    assert.throws(() => other.restore(cp), /Invalid checkpoint/);
+    assert.throws(() => r.restore({offset: 0, truncated: false}));
+  });
+
+  test('struct nested', () => {
+    const r = new DataViewReader(new Uint8Array([
+      0x02,
+      0x01, 0x00, 0x02,
+      0x03, 0x00, 0x04,
+      0x04, 0x01, 0x02, 0x03, 0x04,
+      0x05, 0x06,
+    ]));
+    const res = r.struct({
+      _count: {read: 'u8'},
+      points: {
+        read: 'array',
+        count: t => t.count as number,
+        items: {
+          read: 'struct',
+          fields: {
+            x: {read: 'u8'},
+            _pad: {read: 'u8'},
+            y: {read: 'u8', convert: n => n * 10},
+          },
+        },
+      },
+      _len: {read: 'u8'},
+      bytes: {
+        read: 'array',
+        length: t => t.len as number,
+        items: {read: 'u16'},
+        convert: (a: number[]) => a.map(n => n + 1),
+      },
+      nested: {
+        read: 'struct',
+        fields: {
+          count: {read: 'constant', value: t => t.count},
+          rest: {read: 'array', items: {read: 'u8'}},
+        },
+      },
+    });
+    const typed: {
+      points: {x: number; y: number}[];
+      bytes: number[];
+      nested: {count: unknown; rest: number[]};
+    } = res;
+    assert.deepEqual(typed, {
+      points: [{x: 1, y: 20}, {x: 3, y: 40}],
+      bytes: [0x0103, 0x0305],
+      nested: {count: 2, rest: [5, 6]},
+    });
+    r.complete();
+
+    r.reset();
+    assert.throws(() => r.struct({
+      a: {read: 'array', length: 3, items: {read: 'u16'}},
+    }), TruncationError);
+
+    const t = new DataViewReader(new Uint8Array([1, 2, 3]), {
+      allowTruncation: true,
+    });
+    assert.deepEqual(t.struct({
+      a: {read: 'array', count: 4, items: {read: 'u8'}},
+    }), {a: [1, 2, 3, NaN]});
+    assert.equal(t.truncated, true);
+  });
+
+  test('struct conditional and switch', () => {
+    const r = new DataViewReader(new Uint8Array([
+      0x08, 0x00, 0x00, 0x01, 0x00, 0x01, 0x02, 0x03,
+      0x00, 0x02, 0x02, 0x61, 0x62,
+      0x00, 0x07,
+    ]));
+    const desc = {
+      _flags: {read: 'u8'},
+      ext: {
+        read: 'u32',
+        when: (t: Temp) => ((t.flags as number) & 0x08) !== 0,
+      },
+      _type: {read: 'u8'},
+      body: {
+        read: 'switch',
+        on: (t: Temp) => t.type as number,
+        tag: 'kind',
+        default: 'other',
+        cases: {
+          1: {
+            a: {read: 'u8'},
+            b: {read: 'u8'},
+          },
+          2: {
+            _len: {read: 'u8'},
+            s: {read: 'ascii', length: (t: Temp) => t.len as number},
+          },
+          other: {},
+        },
+      },
+    } as const;
+    const res = r.struct(desc);
+    const typed: {
+      ext?: number;
+      body: {kind: '1'; a: number; b: number} |
+        {kind: '2'; s: string} |
+        {kind: 'other'};
+    } = res;
+    assert.deepEqual(typed, {ext: 0x100, body: {kind: '1', a: 2, b: 3}});
+    if (res.body.kind === '1') {
+      assert.equal(res.body.a, 2);
+    }
+    assert.deepEqual(r.struct(desc), {body: {kind: '2', s: 'ab'}});
+    assert.deepEqual(r.struct(desc), {body: {kind: 'other'}});
+    r.complete();
+
+    r.reset();
+    assert.throws(() => r.struct({
+      _type: {read: 'u8'},
+      body: {read: 'switch', on: () => 3, cases: {1: {}}},
+    }), /Unknown switch case: 3/);
+
+    const t = new DataViewReader(new Uint8Array(0), {allowTruncation: true});
+    assert.deepEqual(t.struct(desc) as object, {body: undefined});
+    assert.equal(t.truncated, true);
+  });
+
+  test('struct enum and flags', () => {
+    const r = new DataViewReader(new Uint8Array([
+      0x02, 0x00, 0x05, 0x03, 0x09,
+    ]));
+    const res = r.struct({
+      kind: {read: 'enum', from: 'u8', map: enumMap({1: 'a', 2: 'b'})},
+      flags: {
+        read: 'flags',
+        from: 'u16',
+        map: flagMap({x: 0, y: 1, z: 2}),
+      },
+      other: {
+        read: 'enum',
+        from: 'u8',
+        map: enumMap({1: 'a'}, {unknown: 'fallback', fallback: 'c'}),
+      },
+      num: {read: 'enum', from: 'u8', map: enumMap({1: 'a'})},
+    });
+    const typed: {
+      kind: 'a' | 'b' | number;
+      flags: Set<'x' | 'y' | 'z'>;
+      other: 'a' | 'c';
+      num: 'a' | number;
+    } = res;
+    assert.deepEqual(typed as object, {
+      kind: 'b',
+      flags: new Set(['x', 'z']),
+      other: 'c',
+      num: 9,
+    });
+
+    const t = new DataViewReader(new Uint8Array(0), {allowTruncation: true});
+    assert.deepEqual(t.struct({
+      kind: {
+        read: 'enum',
+        from: 'u8',
+        map: enumMap({1: 'a'}, {unknown: 'throw'}),
+      },
+    }) as object, {kind: NaN});
+  });
+
+  test('struct bits', () => {
+    const r = new DataViewReader(new Uint8Array([
+      0x45, 0x00, 0x14, 0xf0,
+      0x01, 0x02, 0x03, 0x04,
+    ]));
+    const res = r.struct({
+      ver: {
+        read: 'bits',
+        from: 'u8',
+        fields: {
+          version: {start: 7, finish: 4},
+          _ihl: {start: 0, finish: 3},
+        },
+      },
+      tos: {
+        read: 'bits',
+        from: 'u16',
+        fields: {
+          df: {start: 14},
+          mf: {start: 13, finish: 13},
+          len: {start: 4, finish: 0},
+        },
+      },
+      neg: {
+        read: 'bits',
+        from: 'u8',
+        fields: {
+          high: {start: 7, finish: 4, signed: true},
+          low: {start: 3, finish: 0, signed: true},
+        },
+      },
+      opts: {read: 'bytes', length: t => ((t.ihl as number) - 1) * 1},
+    });
+    const typed: {
+      version: number;
+      df: boolean;
+      mf: boolean | number;
+      len: number;
+      high: number;
+      low: number;
+      opts: Uint8Array;
+    } = res;
+    assert.deepEqual(typed, {
+      version: 4,
+      df: false,
+      mf: false,
+      len: 0x14,
+      high: -1,
+      low: 0,
+      opts: new Uint8Array([1, 2, 3, 4]),
+    });
+    r.complete();
+
+    r.reset();
+    assert.throws(() => r.struct({
+      bad: {read: 'bits', from: 'u64', fields: {big: {start: 0, finish: 60}}},
+    }), /Invalid bit range for "big"/);
+
+    const t = new DataViewReader(new Uint8Array(0), {allowTruncation: true});
+    assert.deepEqual(t.struct({
+      b: {read: 'bits', from: 'u8', fields: {x: {start: 0}}},
+    }) as object, {});
+  });
+
+  test('typedArray', () => {
+    const r = new DataViewReader(new Uint8Array([
+      0x00, 0x01, 0xff, 0xfe,
+      0x3f, 0x80, 0x00, 0x00,
+    ]));
+    const i16: Int16Array = r.typedArray('i16', 2);
+    assert.deepEqual([...i16], [1, -2]);
+    const f32: Float32Array = r.typedArray('f32', 1);
+    assert.deepEqual([...f32], [1]);
+    r.reset();
+    assert.deepEqual([...r.typedArray('u16', 2, true)], [0x0100, 0xfeff]);
+    assert.throws(() => r.typedArray('u32', 2), TruncationError);
+
+    const t = new DataViewReader(new Uint8Array([1, 2, 3]), {
+      allowTruncation: true,
+    });
+    const empty = t.typedArray('u16', 2);
+    assert.equal(empty.length, 0);
+    assert.equal(t.truncated, true);
+  });
+
+  test('fixed', () => {
+    const r = new DataViewReader(new Uint8Array([
+      0x7f, 0xff, 0xc0, 0x00, 0x00, 0x01, 0x80, 0x00, 0x00,
+    ]));
+    const F2DOT14 = {bits: 16, fraction: 14, signed: true};
+    assert.equal(r.fixed(F2DOT14), 1.99993896484375);
+    assert.equal(r.fixed(F2DOT14), -1);
+    assert.equal(r.fixed({bits: 32, fraction: 16}), 1.5);
+    assert.throws(() => r.fixed({bits: 3, fraction: 0}), RangeError);
+    r.reset();
+    assert.equal(r.fixed({bits: 16, fraction: 8}, true), 0xff7f / 256);
+
+    const s = new DataViewReader(new Uint8Array([0x40, 0x00, 0x00, 0x01]));
+    assert.deepEqual(s.struct({
+      f: {read: 'fixed', bits: 16, fraction: 14, signed: true},
+      g: {read: 'fixed', bits: 16, fraction: 1, littleEndian: true},
+    }), {f: 1, g: 128});
+
+    const t = new DataViewReader(new Uint8Array([1]), {
+      allowTruncation: true,
+    });
+    assert(Number.isNaN(t.fixed(F2DOT14)));
+  });
+
+  test('timestamp', () => {
+    const r = new DataViewReader(new Uint8Array([
+      0x5f, 0x5e, 0x10, 0x00,
+      0x00, 0x80, 0xa6, 0x21, 0xc9, 0x89, 0xd6, 0x01,
+    ]));
+    assert.equal(r.timestamp('unix32').toISOString(),
+      '2020-09-13T12:26:40.000Z');
+    assert.equal(r.timestampNs('filetime', true), 1_600_000_000_000_000_000n);
+    assert.throws(() => r.timestamp('unix32'), TruncationError);
+    // @ts-expect-error Invalid format.
+    assert.throws(() => r.timestamp('foo'), TypeError);
+
+    const t = new DataViewReader(new Uint8Array([1, 2, 3]), {
+      allowTruncation: true,
+    });
+    assert(Number.isNaN(t.timestamp('unix32').getTime()));
+    assert.equal(t.timestampNs('unix32'), DataViewReader.BAD_I64);
+
+    const d = new DataViewReader(new Uint8Array(4));
+    const err = assert.throws(
+      () => d.timestamp('dos'), ValidationError
+    ) as unknown as ValidationError;
+    assert.match(err.hex, /^00000000: 0000 0000/);
+  });
+
+  test('addresses', () => {
+    const r = new DataViewReader(new Uint8Array([
+      192, 0, 2, 1,
+      0x20, 0x01, 0x0d, 0xb8, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 1,
+      0, 0, 0x5e, 0, 0x53, 0x01,
+    ]));
+    assert.equal(r.ipv4(), '192.0.2.1');
+    assert.equal(r.ipv6(), '2001:db8::1');
+    assert.equal(r.mac(), '00:00:5e:00:53:01');
+    assert.throws(() => r.ipv4(), TruncationError);
+    r.reset();
+    assert.deepEqual(r.struct({
+      src: {read: 'ipv4'},
+      dst: {read: 'ipv6', convert: (s: string) => s.toUpperCase()},
+      hw: {read: 'mac'},
+    }), {src: '192.0.2.1', dst: '2001:DB8::1', hw: '00:00:5e:00:53:01'});
+
+    const t = new DataViewReader(new Uint8Array([1, 2, 3]), {
+      allowTruncation: true,
+    });
+    assert.equal(t.ipv4(), '');
+  });
+
+  test('uuid', () => {
+    const bytes = new Uint8Array([
+      0xae, 0x4f, 0x1d, 0xf8, 0xec, 0x7d, 0xd0, 0x11,
+      0xa7, 0x65, 0x00, 0xa0, 0xc9, 0x1e, 0x6b, 0xf6,
+    ]);
+    const r = new DataViewReader(bytes);
+    // @ts-expect-error Invalid layout.
+    assert.throws(() => r.uuid('foo'), TypeError);
+    assert.equal(r.offset, 0);
+    assert.equal(r.uuid('microsoft'), 'f81d4fae-7dec-11d0-a765-00a0c91e6bf6');
+    r.reset();
+    assert.equal(r.uuid(), 'ae4f1df8-ec7d-d011-a765-00a0c91e6bf6');
+    assert.throws(() => r.uuid(), TruncationError);
+
+    const t = new DataViewReader(bytes.subarray(1), {allowTruncation: true});
+    assert.equal(t.uuid(), '');
+  });
+
+  test('checksum', () => {
+    const bytes = new Uint8Array([
+      0x31, 0x32, 0x33, 0x34, 0x35, 0x36, 0x37, 0x38, 0x39,
+      0xcb, 0xf4, 0x39, 0x26,
+      0x29, 0xb1,
+    ]);
+    const r = new DataViewReader(bytes);
+    const region = r.beginChecksum();
+    assert.equal(r.ascii(9), '123456789');
+    const ended = r.endChecksum(region);
+    assert.deepEqual(ended, {start: 0, end: 9});
+    assert.equal(r.verifyChecksum(ended, 'crc32', r.u32()), true);
+    assert.equal(r.verifyChecksum(ended, 'crc16ccitt', r.u16()), true);
+
+    // Without an end, the region continues to the current offset.
+    const err = assert.throws(
+      () => r.verifyChecksum(region, 'crc32', 0xcbf43926),
+      ChecksumError
+    ) as unknown as ChecksumError;
+    assert.equal(err.algorithm, 'crc32');
+    assert.equal(err.start, 0);
+    assert.equal(err.end, 15);
+    assert.equal(err.expected, 0xcbf43926);
+    assert.match(err.message, /expected 0xcbf43926/);
+
+    const other = new DataViewReader(bytes);
+    assert.throws(
+      () => other.verifyChecksum(region, 'crc32', 0),
+      /Invalid checksum region/
+    );
+    assert.throws(() => other.endChecksum(region), /Invalid checksum region/);
+
+    const t = new DataViewReader(bytes, {allowTruncation: true});
+    const tr = t.beginChecksum();
+    t.skip(9);
+    assert.equal(t.verifyChecksum(tr, 'crc32', 0), false);
+    assert.equal(t.checksumErrors.length, 1);
+    assert.equal(t.checksumErrors[0].actual, 0xcbf43926);
+    t.reset();
+    assert.deepEqual(t.checksumErrors, []);
+    t.bytes(100);
+    assert.equal(t.verifyChecksum(tr, 'crc32', 0), false);
+    assert.deepEqual(t.checksumErrors, []);
+  });
+
+  test('trace', () => {
+    const bytes = new Uint8Array([1, 0, 2, 3, 4, 5, 6, 7, 8, 9]);
+    assert.deepEqual(new DataViewReader(bytes).trace, []);
+
+    const r = new DataViewReader(bytes, {trace: true});
+    assert.equal(r.u8(), 1);
+    assert.equal(r.peek(() => r.u16()), 2);
+    assert.equal(r.int(2), 2);
+    assert.deepEqual(r.times(2, () => r.u8()), [3, 4]);
+    const sr = r.sub(3);
+    assert.equal(sr.u16(), 0x0506);
+    assert.deepEqual(r.struct({
+      a: {read: 'u8'},
+      b: {read: 'array', count: 1, items: {read: 'u8'}},
+    }), {a: 8, b: [9]});
+
+    const [u8, int, times, sub, struct] = r.trace;
+    assert.equal(r.trace.length, 5);
+    assert.deepEqual(u8, {
+      read: 'u8',
+      start: 0,
+      length: 1,
+      bytes: new Uint8Array([1]),
+      value: 1,
+      children: [],
+    });
+    assert.equal(int.read, 'int');
+    assert.deepEqual(int.children, []);
+    assert.equal(times.length, 2);
+    assert.deepEqual(times.children.map(e => [e.read, e.start]), [
+      ['u8', 3],
+      ['u8', 4],
+    ]);
+    assert.equal(sub.read, 'sub');
+    assert.deepEqual(sub.children.map(e => [e.read, e.start, e.value]), [
+      ['u16', 5, 0x0506],
+    ]);
+    assert.equal(struct.length, 2);
+    const [a, b] = struct.children;
+    assert.deepEqual([a.read, a.name, a.value, a.children], ['u8', 'a', 8, []]);
+    assert.deepEqual([b.read, b.name, b.length], ['array', 'b', 1]);
+    assert.deepEqual(b.children.map(e => [e.name, e.start, e.value]), [
+      ['0', 9, 9],
+    ]);
+
+    const cp = r.checkpoint();
+    assert.throws(() => r.u8(), TruncationError);
+    assert.equal(r.trace.length, 6);
+    assert.equal(r.trace[5].value, undefined);
+    r.restore(cp);
+    assert.equal(r.trace.length, 5);
+    r.reset();
+    assert.deepEqual(r.trace, []);
+  });
+
+  test('error context', () => {
+    const r = new DataViewReader(new Uint8Array([1, 0, 3, 0, 1, 0]));
+    const err = assert.throws(() => r.struct({
+      header: {
+        read: 'struct',
+        fields: {
+          version: {read: 'u8'},
+          options: {
+            read: 'array',
+            count: 3,
+            items: {read: 'struct', fields: {length: {read: 'u16'}}},
+          },
+        },
+      },
+    }), TruncationError) as unknown as TruncationError;
+    assert.instanceOf(err, ReadError);
+    assert.equal(err.path, 'header.options[2].length');
+    assert.equal(err.kind, 'u16');
+    assert.equal(err.offset, 5);
+    assert.equal(
+      err.message,
+      'Message truncated, 2 > 6 at 5 (reading header.options[2].length: u16)'
+    );
+    assert.match(err.hex, /^00000000: 0100 0300 0100 +\.{6}$/);
+
+    r.reset();
+    const t = assert.throws(
+      () => r.times(4, () => r.u16()),
+      TruncationError
+    ) as unknown as TruncationError;
+    assert.equal(t.path, '[3]');
+    assert.equal(t.kind, '');
+
+    const bad = new DataViewReader(new Uint8Array([0x61, 0xff]));
+    const u = assert.throws(
+      () => bad.utf8(2),
+      UTF8Error
+    ) as unknown as UTF8Error;
+    assert.equal(u.start, 0);
+    assert.equal(u.encoding, 'utf-8');
+    assert.equal(u.path, '');
+    assert.match(u.hex, /^00000000: 61ff/);
+
+    const pad = new DataViewReader(new Uint8Array([0, 1]));
+    const v = assert.throws(() => pad.struct({
+      _pad: {read: 'pad', length: 2, zero: true},
+    }), ValidationError) as unknown as ValidationError;
+    assert.equal(v.offset, 1);
+    assert.equal(v.message, 'Non-zero padding at 1 (reading _pad: pad)');
+
+    // Offsets in sub-readers are from the start of the outer reader.
+    const outer = new DataViewReader(new Uint8Array([1, 2, 3, 4, 5, 6, 7]));
+    outer.skip(2);
+    const s = assert.throws(() => outer.struct({
+      opts: {read: 'array', length: 3, items: {read: 'u16'}},
+    }), TruncationError) as unknown as TruncationError;
+    assert.equal(s.offset, 4);
+    assert.equal(s.start, 4);
+    assert.equal(s.size, 5);
+    assert.equal(
+      s.message, 'Message truncated, 2 > 5 at 4 (reading opts[1]: u16)'
+    );
+    assert.match(s.hex, /^00000002: 0304 05 +\.{3}$/);
+
+    const text = new DataViewReader(new Uint8Array([0, 0x61, 0xff]));
+    text.u8();
+    const sr = text.sub(2);
+    const e = assert.throws(
+      () => sr.utf8(2),
+      UTF8Error
+    ) as unknown as UTF8Error;
+    assert.equal(e.start, 1);
+    assert.match(e.hex, /^00000001: 61ff/);
+  });
+
+  test('array after truncation', () => {
+    const r = new DataViewReader(new Uint8Array([1, 2, 3]), {
+      allowTruncation: true,
+    });
+    assert.deepEqual(r.struct({
+      a: {read: 'u32'},
+      b: {read: 'array', items: {read: 'u8'}},
+    }), {a: NaN, b: []});
+    assert(r.truncated);
+
+    r.reset();
+    assert.deepEqual(r.struct({
+      _len: {read: 'u32'},
+      b: {read: 'array', length: t => t.len as number, items: {read: 'u8'}},
+    }), {b: []});
+    assert(r.truncated);
+  });
+
+  test('array by length', () => {
+    const r = new DataViewReader(new Uint8Array([1, 2, 3, 4]), {
+      allowTruncation: true,
+    });
+    const z = assert.throws(() => r.struct({
+      a: {read: 'array', length: 2, items: {read: 'utf8', length: () => 0}},
+    }), ValidationError) as unknown as ValidationError;
+    assert.equal(z.offset, 0);
+    assert.equal(z.message, 'Array item 0 read no bytes (reading a: array)');
+
+    // Items may not overrun the length, even if truncation is allowed.
+    r.reset();
+    const o = assert.throws(() => r.struct({
+      a: {read: 'array', length: 3, items: {read: 'u16'}},
+    }), TruncationError) as unknown as TruncationError;
+    assert.equal(o.offset, 2);
+    assert.equal(o.path, 'a[1]');
+    assert(!r.truncated);
+
+    r.reset();
+    assert.throws(() => r.struct({
+      a: {read: 'array', length: -1, items: {read: 'u8'}},
+    }), /Invalid read size: -1/);
+    r.reset();
+    assert.throws(() => r.struct({
+      a: {read: 'array', length: () => NaN, items: {read: 'u8'}},
+    }), /Invalid read size: NaN/);
+
+    // Still truncated if the input ends before the length.
+    r.reset();
+    assert.deepEqual(r.struct({
+      a: {read: 'array', length: 6, items: {read: 'u16'}},
+    }), {a: [0x0102, 0x0304]});
+    assert(r.truncated);
+  });
 });
@@ -0,0 +1,112 @@
+import {
+  TIMESTAMP_SIZE,
+  type TimestampFormat,
+  decodeTimestamp,
+  encodeTimestamp,
+  nsToDate,
+  timestampSize,
+} from '../src/timestamp.ts';
+import {assert, test} from 'vitest';
+import {ValidationError} from '../src/errors.ts';
+
+const NS = 1_600_000_000_000_000_000n; // 2020-09-13T12:26:40Z
+
+const EXAMPLES: [TimestampFormat, number[], bigint][] = [
+  ['unix32', [0x5f, 0x5e, 0x10, 0x00], NS],
+  ['unix64', [0, 0, 0, 0, 0x5f, 0x5e, 0x10, 0x00], NS],
+  ['unixMs', [0, 0, 0x01, 0x74, 0x87, 0x6e, 0x80, 0x7b], NS + 123_000_000n],
+  ['ntp', [0xe3, 0x08, 0x8e, 0x80, 0x80, 0, 0, 0], NS + 500_000_000n],
+  ['filetime', [0x01, 0xd6, 0x89, 0xc9, 0x21, 0xa6, 0x80, 0x00], NS],
+  ['dos', [0x63, 0x54, 0x51, 0x2d], NS],
+  ['pcap', [0x5f, 0x5e, 0x10, 0x00, 0, 0x01, 0xe2, 0x40], NS + 123_456_000n],
+];
+
+test('decodeTimestamp', () => {
+  for (const [format, bytes, ns] of EXAMPLES) {
+    assert.equal(TIMESTAMP_SIZE[format], bytes.length, format);
+    assert.equal(
+      decodeTimestamp(format, new Uint8Array(bytes), false), ns, format
+    );
+  }
+  assert.equal(decodeTimestamp(
+    'unix32', new Uint8Array([0x00, 0x10, 0x5e, 0x5f]), true
+  ), NS);
+  assert.equal(decodeTimestamp(
+    'ntp', new Uint8Array([0x80, 0x8e, 0x08, 0xe3, 0, 0, 0, 0x80]), true
+  ), NS + 500_000_000n);
+  assert.throws(
+    // @ts-expect-error Invalid format.
+    () => decodeTimestamp('foo', new Uint8Array(4), false),
+    TypeError
+  );
+
+  // Each field out of range, including the all-zero date.
+  for (const [time, date, msg] of [
+    [0x0000, 0x0000, '1980-0-0 0:0:0'],
+    [0x0000, 0x01a1, '1980-13-1 0:0:0'],
+    [0x0000, 0x525f, '2021-2-31 0:0:0'],
+    [0xc000, 0x5221, '2021-1-1 24:0:0'],
+    [0x0780, 0x5221, '2021-1-1 0:60:0'],
+    [0x001e, 0x5221, '2021-1-1 0:0:60'],
+  ] as const) {
+    assert.throws(
+      () => decodeTimestamp('dos', new Uint8Array([
+        time >> 8, time & 0xff, date >> 8, date & 0xff,
+      ]), false),
+      ValidationError,
+      `Invalid dos timestamp: ${msg}`
+    );
+  }
+  assert.equal(
+    decodeTimestamp('dos', new Uint8Array([0xbf, 0x7d, 0x52, 0x5c]), false),
+    1_614_556_798_000_000_000n // 2021-02-28T23:59:58Z
+  );
+});
+
+test('encodeTimestamp', () => {
+  for (const [format, bytes, ns] of EXAMPLES) {
+    assert.deepEqual(
+      encodeTimestamp(format, ns, false), new Uint8Array(bytes), format
+    );
+  }
+  assert.deepEqual(
+    encodeTimestamp('unix32', new Date('2020-09-13T12:26:40Z'), true),
+    new Uint8Array([0x00, 0x10, 0x5e, 0x5f])
+  );
+
+  // NTP round-trips nanoseconds.
+  const ntp = encodeTimestamp('ntp', NS + 1n, false);
+  assert.equal(decodeTimestamp('ntp', ntp, false), NS + 1n);
+
+  assert.throws(() => encodeTimestamp('unix32', NS + 1n, false), /precision/);
+  assert.throws(() => encodeTimestamp('dos', NS + 1_000_000_000n, false),
+    /precision/);
+  assert.throws(() => encodeTimestamp('pcap', NS + 1n, false), /precision/);
+  assert.throws(() => encodeTimestamp('filetime', NS + 1n, false),
+    /precision/);
+  assert.throws(() => encodeTimestamp('unix32', -1_000_000_000n, false),
+    /out of range/);
+  assert.throws(() => encodeTimestamp('pcap', -1000n, false), /out of range/);
+  assert.throws(
+    () => encodeTimestamp('pcap', (1n << 32n) * 1_000_000_000n, false),
+    /out of range/
+  );
+  assert.throws(() => encodeTimestamp('ntp', -(2n ** 64n), false),
+    /out of range/);
+  assert.throws(() => encodeTimestamp('dos', 0n, false), /out of range/);
+  assert.throws(
+    () => encodeTimestamp('dos', new Date('2108-01-01T00:00:00Z'), false),
+    /out of range/
+  );
+  assert.throws(() => encodeTimestamp('unix32', new Date(NaN), false),
+    /Invalid date/);
+  // @ts-expect-error Invalid format.
+  assert.throws(() => encodeTimestamp('foo', 0n, false), TypeError);
+});
+
+test('nsToDate', () => {
+  assert.equal(nsToDate(NS + 999_999n).toISOString(),
+    '2020-09-13T12:26:40.000Z');
+  assert.equal(nsToDate(-1n).toISOString(), '1969-12-31T23:59:59.999Z');
+  assert.equal(timestampSize('ntp'), 8);
+});
@@ -0,0 +1,58 @@
+import {
+  HOST_LITTLE_ENDIAN,
+  toTypedArray,
+  typedArrayBytes,
+  typedArrayConstructor,
+} from '../src/typedArray.ts';
+import {assert, describe, test} from 'vitest';
+
+describe('typedArray', () => {
+  test('toTypedArray', () => {
+    const buf = new Uint8Array([0xff, 0x00, 0x01, 0x00, 0x02]);
+    const host = toTypedArray('u16', buf.subarray(1, 5), HOST_LITTLE_ENDIAN);
+    assert.instanceOf(host, Uint16Array);
+    assert.equal(host.length, 2);
+    // Unaligned, so copied.
+    assert.notEqual(host.buffer, buf.buffer);
+
+    const le = toTypedArray('i16', buf.subarray(1, 5), true);
+    assert.deepEqual([...le], [0x100, 0x200]);
+    const be = toTypedArray('u16', buf.subarray(1, 5), false);
+    assert.deepEqual([...be], [1, 2]);
+
+    const aligned = new Uint8Array([1, 0, 0, 0, 2, 0, 0, 0]);
+    const shared = toTypedArray('u32', aligned, HOST_LITTLE_ENDIAN);
+    assert.equal(shared.buffer, aligned.buffer);
+    const swapped = toTypedArray('u32', aligned, !HOST_LITTLE_ENDIAN);
+    assert.notEqual(swapped.buffer, aligned.buffer);
+
+    const big = toTypedArray('i64', new Uint8Array([
+      0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xfe,
+    ]), false);
+    assert.deepEqual([...big], [-2n]);
+
+    const bytes = toTypedArray('u8', buf.subarray(1), false);
+    assert.equal(bytes.buffer, buf.buffer);
+
+    // @ts-expect-error Invalid kind.
+    assert.throws(() => typedArrayConstructor('u24'), TypeError);
+    // @ts-expect-error Not own property.
+    assert.throws(() => typedArrayConstructor('toString'), TypeError);
+  });
+
+  test('typedArrayBytes', () => {
+    const arr = new Uint16Array([0x0102, 0x0304]);
+    const host = typedArrayBytes(arr, HOST_LITTLE_ENDIAN);
+    assert.equal(host.buffer, arr.buffer);
+    assert.deepEqual(typedArrayBytes(arr, false), new Uint8Array([
+      0x01, 0x02, 0x03, 0x04,
+    ]));
+    assert.deepEqual(typedArrayBytes(arr, true), new Uint8Array([
+      0x02, 0x01, 0x04, 0x03,
+    ]));
+    assert.deepEqual(
+      typedArrayBytes(new Int8Array([-1]), false),
+      new Uint8Array([0xff])
+    );
+  });
+});
@@ -19,3 +19,13 @@ export function withNo16(f: () => void): void {
   DataView.prototype.getFloat16 = getFloat16;
   Math.f16round = f16round;
 }
+
+/**
+ * Convert a hex string to bytes.
+ *
+ * @param str Hex string, with no separators.
+ * @returns Bytes.
+ */
+export function hex(str: string): Uint8Array {
+  return new Uint8Array(str.match(/../g)?.map(b => parseInt(b, 16)) ?? []);
+}
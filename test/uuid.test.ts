@@ -0,0 +1,27 @@
+import {assert, test} from 'vitest';
+import {parseUUID, uuidToString} from '../src/uuid.ts';
+import {hex} from './utils.ts';
+
+const UUID = 'f81d4fae-7dec-11d0-a765-00a0c91e6bf6';
+const RFC = hex('f81d4fae7dec11d0a76500a0c91e6bf6');
+const MS = hex('ae4f1df8ec7dd011a76500a0c91e6bf6');
+
+test('uuidToString', () => {
+  assert.equal(uuidToString(RFC, 'rfc'), UUID);
+  assert.equal(uuidToString(MS, 'microsoft'), UUID);
+  // Input not modified.
+  assert.deepEqual(MS, hex('ae4f1df8ec7dd011a76500a0c91e6bf6'));
+  // @ts-expect-error Invalid layout.
+  assert.throws(() => uuidToString(RFC, 'foo'), TypeError);
+});
+
+test('parseUUID', () => {
+  assert.deepEqual(parseUUID(UUID, 'rfc'), RFC);
+  assert.deepEqual(parseUUID(UUID.toUpperCase(), 'microsoft'), MS);
+  for (const bad of [
+    '', UUID.slice(1), `{${UUID}}`, UUID.replaceAll('-', ''),
+    UUID.replace('f', 'g'), `${UUID}0`,
+  ]) {
+    assert.throws(() => parseUUID(bad, 'rfc'), RangeError, undefined, bad);
+  }
+});
@@ -1,6 +1,8 @@
+import {TruncationError, UTF8Error} from '../src/errors.ts';
 import {assert, describe, expect, test} from 'vitest';
 import {DataViewWritableStream} from '../src/writableStream.ts';
-import {TruncationError} from '../src/errors.ts';
+import type {StructDefinition} from '../src/reader.ts';
+import {flagMap} from '../src/mapping.ts';
 
 const TE = new TextEncoder();
 
@@ -189,4 +191,230 @@ describe('DataViewWritableStream', () => {
       byt: {read: 'bytes', length: () => 10},
     }, 10)).rejects.toThrow(/Message truncated/);
   });
+
+  test('quicVarint', async () => {
+    const input = new Uint8Array([
+      0xc2, 0x19, 0x7c, 0x5e, 0xff, 0x14, 0xe8, 0x8c,
+      0x9d, 0x7f, 0x3e, 0x7d,
+      0x7b, 0xbd,
+      0x25,
+      0x40,
+    ]);
+    const n = new DataViewWritableStream(input);
+    assert.equal(await n.quicVarint(), 151288809941952652n);
+    assert.equal(await n.quicVarint(), 494878333);
+    assert.equal(await n.quicVarint(), 15293);
+    assert.equal(await n.quicVarint(), 37);
+    await expect(n.quicVarint()).rejects.toThrow(TruncationError);
+  });
+
+  test('prefixed', async () => {
+    const input = new Uint8Array([
+      0x02, 0x01, 0x02,
+      0x02, 0x00, 0x61, 0x62,
+      0x00, 0x00, 0x00, 0x02, 0xc3, 0xa9,
+      0x03, 0x61,
+    ]);
+    const n = new DataViewWritableStream({input, littleEndian: true});
+    assert.deepEqual(await n.prefixedBytes(), new Uint8Array([1, 2]));
+    assert.equal(await n.prefixedAscii('u16'), 'ab');
+    assert.equal(await n.prefixedUtf8('u32', false), '\u00e9');
+    await expect(n.prefixedAscii()).rejects.toThrow(TruncationError);
+  });
+
+  test('arbitrary width', async () => {
+    const input = new Uint8Array([
+      0x01, 0x02, 0x03,
+      0x03, 0x02, 0x01,
+      0xfe, 0xff, 0xff,
+      0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff,
+      0x80, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00,
+    ]);
+    const n = new DataViewWritableStream({input, littleEndian: true});
+    assert.equal(await n.uint(3, false), 0x010203);
+    assert.equal(await n.uint(3), 0x010203);
+    assert.equal(await n.int(3), -2);
+    assert.equal(await n.uint(7), 0xffffffffffffffn);
+    assert.equal(await n.int(7, false), -0x80000000000000n);
+    await expect(n.uint(0)).rejects.toThrow(RangeError);
+    await expect(n.int(9)).rejects.toThrow(RangeError);
+    await expect(n.uint(3)).rejects.toThrow(TruncationError);
+  });
+
+  test('struct arbitrary width', async () => {
+    const input = new Uint8Array([
+      0x00, 0x00, 0x01,
+      0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x02,
+      0xff, 0xff, 0xff, 0xff, 0xfe,
+    ]);
+    const n = new DataViewWritableStream(input);
+    const desc = {
+      u24: {read: 'u24'},
+      u56: {read: 'u56'},
+      i40: {read: 'i40'},
+    } as const;
+    assert.deepEqual(await n.struct(desc), {u24: 1, u56: 2n, i40: -2});
+    assert.equal(
+      (desc as StructDefinition)[DataViewWritableStream.SIZE], 15
+    );
+  });
+
+  test('utf16 and other encodings', async () => {
+    const input = new Uint8Array([
+      0x61, 0x00,
+      0xfe, 0xff, 0x00, 0x62,
+      0x00, 0x63,
+      0xc1, 0xc2,
+      0x00, 0xd8,
+    ]);
+    const n = new DataViewWritableStream({input, littleEndian: true});
+    assert.equal(await n.utf16(2), 'a');
+    assert.equal(await n.utf16(4), 'b');
+    assert.equal(await n.utf16(2, false), 'c');
+    await expect(n.string(2, 'bogus')).rejects.toThrow(RangeError);
+    assert.equal(await n.string(2, 'koi8-r'), '\u0430\u0431');
+    await expect(n.utf16(2)).rejects.toThrow(UTF8Error);
+
+    const n2 = new DataViewWritableStream({
+      input: new Uint8Array([0x00, 0xd8]),
+      littleEndian: true,
+      ignoreUTF8errors: true,
+    });
+    assert.equal(await n2.utf16(2), '\ufffd');
+  });
+
+  test('struct padding', async () => {
+    const input = new Uint8Array([
+      0x01, 0x00, 0x00, 0x00, 0x02, 0x00, 0x03,
+    ]);
+    const n = new DataViewWritableStream(input);
+    const desc = {
+      a: {read: 'u8'},
+      _align: {read: 'align', alignment: 4},
+      b: {read: 'u8'},
+      _pad: {read: 'pad', length: 1},
+      c: {read: 'u8'},
+    } as const;
+    assert.deepEqual(await n.struct(desc), {a: 1, b: 2, c: 3});
+    assert.equal((desc as StructDefinition)[DataViewWritableStream.SIZE], 7);
+    await expect(n.struct({
+      _pad: {read: 'pad', length: () => 1},
+    })).rejects.toThrow(/Invalid read method for implicit size/);
+  });
+
+  test('struct nested', async () => {
+    const input = new Uint8Array([
+      0x01, 0x00, 0x02, 0x00, 0x03, 0x00, 0x04, 0x00,
+      0x05, 0x06,
+      0x07,
+    ]);
+    const n = new DataViewWritableStream({input, littleEndian: true});
+    const desc = {
+      points: {
+        read: 'array',
+        count: 2,
+        items: {
+          read: 'struct',
+          fields: {
+            x: {read: 'u8'},
+            _align: {read: 'align', alignment: 2},
+            y: {read: 'u8'},
+            _pad: {read: 'pad', length: 1},
+          },
+        },
+      },
+      bytes: {read: 'array', length: 2, items: {read: 'u8'}},
+      last: {
+        read: 'struct',
+        fields: {z: {read: 'flags', from: 'u8', map: flagMap({z: 0})}},
+      },
+    } as const;
+    assert.deepEqual(await n.struct(desc), {
+      points: [{x: 1, y: 2}, {x: 3, y: 4}],
+      bytes: [5, 6],
+      last: {z: new Set(['z'])},
+    });
+    assert.equal((desc as StructDefinition)[DataViewWritableStream.SIZE], 11);
+    await expect(n.struct({
+      rest: {read: 'array', items: {read: 'u8'}},
+    })).rejects.toThrow(/Invalid read method for implicit size/);
+    await expect(n.struct({
+      a: {read: 'u8', when: () => true},
+    })).rejects.toThrow(/Conditional field has no implicit size/);
+
+    // Count wins over length, as in DataViewReader.
+    const both = {
+      a: {read: 'array', count: 2, length: 5, items: {read: 'u8'}},
+    } as const;
+    const b = new DataViewWritableStream(new Uint8Array([1, 2, 3]));
+    assert.deepEqual(await b.struct(both), {a: [1, 2]});
+    assert.equal((both as StructDefinition)[DataViewWritableStream.SIZE], 2);
+    assert.equal(await b.u8(), 3);
+  });
+
+  test('typedArray', async () => {
+    const n = new DataViewWritableStream(new Uint8Array([
+      0x00, 0x01, 0xff, 0xfe,
+      0x02, 0x01,
+    ]));
+    const i16: Int16Array = await n.typedArray('i16', 2);
+    assert.deepEqual([...i16], [1, -2]);
+    assert.deepEqual([...await n.typedArray('u16', 1, true)], [0x0102]);
+    await expect(n.typedArray('u8', 1)).rejects.toThrow(TruncationError);
+  });
+
+  test('fixed', async () => {
+    const n = new DataViewWritableStream(new Uint8Array([
+      0xc0, 0x00,
+      0x00, 0x80,
+    ]));
+    const F2DOT14 = {bits: 16, fraction: 14, signed: true};
+    assert.equal(await n.fixed(F2DOT14), -1);
+    assert.equal(await n.fixed(F2DOT14, true), -2);
+    await expect(n.fixed(F2DOT14)).rejects.toThrow(TruncationError);
+    await expect(n.fixed({bits: 4, fraction: 0})).rejects.toThrow(RangeError);
+  });
+
+  test('timestamp', async () => {
+    const n = new DataViewWritableStream(new Uint8Array([
+      0x5f, 0x5e, 0x10, 0x00,
+      0x00, 0x80, 0xa6, 0x21, 0xc9, 0x89, 0xd6, 0x01,
+    ]));
+    const d = await n.timestamp('unix32');
+    assert.equal(d.toISOString(), '2020-09-13T12:26:40.000Z');
+    assert.equal(
+      await n.timestampNs('filetime', true), 1_600_000_000_000_000_000n
+    );
+    await expect(n.timestamp('unix32')).rejects.toThrow(TruncationError);
+  });
+
+  test('addresses', async () => {
+    const n = new DataViewWritableStream(new Uint8Array([
+      192, 0, 2, 1,
+      0x20, 0x01, 0x0d, 0xb8, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 1,
+      0, 0, 0x5e, 0, 0x53, 0x01,
+      10, 0, 0, 1,
+    ]));
+    assert.equal(await n.ipv4(), '192.0.2.1');
+    assert.equal(await n.ipv6(), '2001:db8::1');
+    assert.equal(await n.mac(), '00:00:5e:00:53:01');
+    assert.deepEqual(await n.struct({
+      a: {read: 'ipv4'},
+    }), {a: '10.0.0.1'});
+    await expect(n.mac()).rejects.toThrow(TruncationError);
+  });
+
+  test('uuid', async () => {
+    const n = new DataViewWritableStream(new Uint8Array([
+      0xae, 0x4f, 0x1d, 0xf8, 0xec, 0x7d, 0xd0, 0x11,
+      0xa7, 0x65, 0x00, 0xa0, 0xc9, 0x1e, 0x6b, 0xf6,
+    ]));
+    // @ts-expect-error Invalid layout.
+    await expect(n.uuid('foo')).rejects.toThrow(TypeError);
+    assert.equal(
+      await n.uuid('microsoft'),
+      'f81d4fae-7dec-11d0-a765-00a0c91e6bf6'
+    );
+    await expect(n.uuid()).rejects.toThrow(TruncationError);
+  });
 });
@@ -9,6 +9,7 @@ export default defineConfig({
     'src/readableStream.ts',
     'src/writableStream.ts',
     'src/packet.ts',
+    'src/bitReader.ts',
   ],
   format: 'esm',
   minify: {